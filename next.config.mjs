@@ -1,6 +1,15 @@
 const nextConfig = {
   reactStrictMode: true,
   turbopack: {},
+  async headers() {
+    return [
+      {
+        // Always check for a new service worker so updates aren't held back by the HTTP cache
+        source: '/sw.js',
+        headers: [{ key: 'Cache-Control', value: 'no-cache, no-store, must-revalidate' }],
+      },
+    ];
+  },
 }
 
 export default nextConfig;
\ No newline at end of file
@@ -0,0 +1,51 @@
+// Writes public/sw.js from service-worker/template.js after `next build`,
+// precaching this build's static chunks, its prerendered pages and the
+// files in public/. Runs as the `postbuild` npm script.
+
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+const root = join(import.meta.dirname, '..');
+const buildDir = join(root, '.next');
+const publicDir = join(root, 'public');
+const output = join(publicDir, 'sw.js');
+
+if (!existsSync(join(buildDir, 'BUILD_ID'))) {
+  console.error('No production build found; run `next build` first.');
+  process.exit(1);
+}
+
+function listFiles(dir) {
+  return readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+function toUrl(base, dir, file) {
+  return base + relative(dir, file).split(sep).join('/');
+}
+
+const buildId = readFileSync(join(buildDir, 'BUILD_ID'), 'utf8').trim();
+
+const staticUrls = listFiles(join(buildDir, 'static'))
+  .filter(file => !file.endsWith('.map'))
+  .map(file => toUrl('/_next/static/', join(buildDir, 'static'), file));
+
+const publicUrls = listFiles(publicDir)
+  .filter(file => file !== output && !/[\\/](sw|workbox-.*|worker-.*)\.js(\.map)?$/.test(file))
+  .map(file => toUrl('/', publicDir, file));
+
+// Prerendered pages, leaving out Next.js internals like /_not-found and dynamic routes
+const routes = Object.values(JSON.parse(readFileSync(join(buildDir, 'app-path-routes-manifest.json'), 'utf8')))
+  .filter(route => !route.startsWith('/_') && !route.includes('['));
+
+const urls = [...new Set([...routes, ...publicUrls, ...staticUrls])].sort();
+
+const source = readFileSync(join(root, 'service-worker', 'template.js'), 'utf8')
+  .replace(/^(\/\/.*\n)+/, '// Generated by service-worker/generate.mjs from service-worker/template.js\n')
+  .replace('__BUILD_ID__', JSON.stringify(buildId))
+  .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+
+writeFileSync(output, source);
+console.log(`Wrote public/sw.js for build ${buildId} precaching ${urls.length} files`);
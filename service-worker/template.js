@@ -0,0 +1,66 @@
+// Template for public/sw.js. `npm run build` fills in the build id and the
+// list of files to precache; see generate.mjs.
+
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const CACHE_PREFIX = 'bricks-and-balls-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+
+// Precache everything up front so the game works offline from the first visit.
+// The new version waits until the page asks it to take over, see SKIP_WAITING.
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+// Drop the caches of earlier builds once this one is in charge
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // React Server Component payloads vary by request headers; when they fail
+  // offline, Next.js falls back to a full navigation, which is cached
+  if (request.method !== 'GET' || url.origin !== self.location.origin || request.headers.has('RSC')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(url.pathname, { cacheName: CACHE_NAME })
+        .then(cached => cached || fetch(request))
+        .catch(() => caches.match('/', { cacheName: CACHE_NAME }))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        // Anything the precache missed is kept for next time
+        if (response.ok && response.type === 'basic') {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
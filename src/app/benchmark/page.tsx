@@ -0,0 +1,5 @@
+import Benchmark from '@/components/Benchmark';
+
+export default function BenchmarkPage() {
+  return <Benchmark />;
+}
@@ -0,0 +1,10 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// The editor restores its draft from localStorage, so it only renders on the client
+const LevelEditor = dynamic(() => import('@/components/LevelEditor'), { ssr: false });
+
+export default function EditorPage() {
+  return <LevelEditor />;
+}
@@ -0,0 +1,10 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+// Stored runs come from localStorage, so the viewer only renders on the client
+const ReplayViewer = dynamic(() => import('@/components/ReplayViewer'), { ssr: false });
+
+export default function ReplayPage() {
+  return <ReplayViewer />;
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { GAME_SPEEDS } from '@/lib/accessibility';
+import { AccessibilitySettings, BrickPalette, MotionPreference } from '@/types/accessibility';
+
+interface AccessibilityOptionsProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+}
+
+export default function AccessibilityOptions({ settings, onChange }: AccessibilityOptionsProps) {
+  const selectClass = 'rounded-lg border border-game-border surface-primary px-2 py-1 text-text-primary';
+
+  return (
+    <div className="space-y-3 text-sm text-left">
+      <label className="flex items-center gap-3">
+        <span className="w-36 font-semibold text-text-primary">Brick colors</span>
+        <select
+          value={settings.brickPalette}
+          onChange={e => onChange({ ...settings, brickPalette: e.target.value as BrickPalette })}
+          className={selectClass}
+        >
+          <option value="level">Level colors</option>
+          <option value="colorblind">Colorblind-safe</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-3 cursor-pointer">
+        <span className="w-36 font-semibold text-text-primary">Brick shapes</span>
+        <input
+          type="checkbox"
+          checked={settings.brickGlyphs}
+          onChange={e => onChange({ ...settings, brickGlyphs: e.target.checked })}
+        />
+        <span className="text-text-secondary">Mark each brick color with its own shape</span>
+      </label>
+      <label className="flex items-center gap-3">
+        <span className="w-36 font-semibold text-text-primary">Motion</span>
+        <select
+          value={settings.motion}
+          onChange={e => onChange({ ...settings, motion: e.target.value as MotionPreference })}
+          className={selectClass}
+        >
+          <option value="system">Follow system setting</option>
+          <option value="reduce">Reduced: no particles, shake or flashes</option>
+          <option value="full">Full</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-3">
+        <span className="w-36 font-semibold text-text-primary">Game speed</span>
+        <select
+          value={settings.gameSpeed}
+          onChange={e => onChange({ ...settings, gameSpeed: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {GAME_SPEEDS.map(speed => (
+            <option key={speed} value={speed}>{speed === 1 ? 'Normal' : `${speed * 100}%`}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { Block } from '@/types/game';
+import { createGameConfig } from '@/lib/difficulty';
+import { FIXED_TIMESTEP, createGameState, setBlocks, startGame, stepSimulation } from '@/lib/simulation';
+
+const BENCHMARK_CONFIG = createGameConfig(800, 600);
+
+const FIELD_SIZES = [1000, 5000];
+const TICKS = 1200; // ten seconds of play
+const TICKS_PER_FRAME = 1 / 60 / FIXED_TIMESTEP; // at a 60 Hz refresh rate
+
+interface BenchmarkResult {
+  blocks: number;
+  linearMs: number;
+  gridMs: number;
+}
+
+// Pack `count` small bricks into the upper part of the playfield
+function generateDenseField(count: number): Block[] {
+  const fieldX = 20;
+  const fieldY = 40;
+  const fieldWidth = BENCHMARK_CONFIG.canvasWidth - fieldX * 2;
+  const fieldHeight = 360;
+
+  const cols = Math.ceil(Math.sqrt(count * (fieldWidth / fieldHeight)));
+  const rows = Math.ceil(count / cols);
+  const width = fieldWidth / cols;
+  const height = fieldHeight / rows;
+
+  const blocks: Block[] = [];
+  for (let i = 0; i < count; i++) {
+    const c = i % cols;
+    const r = Math.floor(i / cols);
+    blocks.push({
+      type: 'standard',
+      position: { x: fieldX + c * width, y: fieldY + r * height },
+      width: width - 1,
+      height: height - 1,
+      color: '#48cae4',
+      destroyed: false,
+      points: 10,
+      hitPoints: 1,
+      maxHitPoints: 1,
+      timesDestroyed: 0,
+    });
+  }
+  return blocks;
+}
+
+// Average simulation time per 60 Hz frame, in milliseconds
+function measure(blocks: Block[], broadphase: boolean): number {
+  const config = BENCHMARK_CONFIG;
+  // A single cell covering the whole field makes every query return every
+  // block, which is exactly the linear scan the grid replaced
+  const cellSize = broadphase ? undefined : Math.max(config.canvasWidth, config.canvasHeight);
+  let state = startGame(setBlocks(createGameState(config), blocks, config, cellSize));
+
+  const start = performance.now();
+  for (let i = 0; i < TICKS; i++) {
+    state = stepSimulation(state, {
+      moveLeft: false,
+      moveRight: false,
+      pointerX: state.balls[0]?.position.x,
+      launch: true, // serve straight away, and again after a lost life
+    }, config).state;
+
+    if (!broadphase) {
+      // The previous level-complete check allocated this every tick
+      state.blocks.filter(block => !block.destroyed);
+    }
+  }
+  const elapsed = performance.now() - start;
+
+  return (elapsed / TICKS) * TICKS_PER_FRAME;
+}
+
+export default function Benchmark() {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runBenchmark = () => {
+    setIsRunning(true);
+    setResults([]);
+
+    // Yield between runs so the table fills in as results arrive
+    const runNext = (index: number) => {
+      if (index >= FIELD_SIZES.length) {
+        setIsRunning(false);
+        return;
+      }
+
+      const blocks = generateDenseField(FIELD_SIZES[index]);
+      const result: BenchmarkResult = {
+        blocks: blocks.length,
+        linearMs: measure(blocks, false),
+        gridMs: measure(blocks, true),
+      };
+      setResults(previous => [...previous, result]);
+      setTimeout(() => runNext(index + 1), 0);
+    };
+
+    setTimeout(() => runNext(0), 0);
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gradient-surface p-4">
+      <div className="text-center mb-8 animate-fade-in-up">
+        <h1 className="text-4xl font-bold text-text-primary mb-3 tracking-tight">
+          Collision Benchmark
+        </h1>
+        <p className="text-text-secondary font-medium">
+          Simulation time per 60 Hz frame over {TICKS} ticks, linear scan vs. spatial grid
+        </p>
+      </div>
+
+      <button
+        onClick={runBenchmark}
+        disabled={isRunning}
+        className="btn-game inline-flex items-center px-8 py-4 mb-8 bg-gradient-primary text-white rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong disabled:opacity-60"
+      >
+        {isRunning ? 'Running…' : 'Run Benchmark'}
+      </button>
+
+      <div className="surface-primary rounded-2xl p-6 shadow-soft w-full max-w-lg">
+        <table className="w-full text-left text-text-primary">
+          <thead>
+            <tr className="text-text-secondary text-sm uppercase tracking-wide">
+              <th className="pb-3">Bricks</th>
+              <th className="pb-3">Linear scan</th>
+              <th className="pb-3">Spatial grid</th>
+              <th className="pb-3">Speedup</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr key={result.blocks} className="font-semibold">
+                <td className="py-1">{result.blocks.toLocaleString()}</td>
+                <td className="py-1">{result.linearMs.toFixed(3)} ms</td>
+                <td className="py-1">{result.gridMs.toFixed(3)} ms</td>
+                <td className="py-1">{(result.linearMs / result.gridMs).toFixed(1)}×</td>
+              </tr>
+            ))}
+            {results.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-2 text-text-secondary">
+                  {isRunning ? 'Measuring…' : 'No results yet'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  addBinding,
+  bindingId,
+  describeBinding,
+  findConflict,
+  removeBinding,
+} from '@/lib/inputBindings';
+import { InputAction, InputBinding, InputBindings } from '@/types/input';
+
+interface ControlSettingsProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+}
+
+// A binding that is already used by another action, waiting for the player to decide
+interface PendingConflict {
+  action: InputAction;
+  binding: InputBinding;
+  other: InputAction;
+}
+
+export default function ControlSettings({ bindings, onChange }: ControlSettingsProps) {
+  // Action waiting for a key or button press
+  const [capturing, setCapturing] = useState<InputAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const offer = (binding: InputBinding) => {
+      setCapturing(null);
+      if (bindings[capturing].some(b => bindingId(b) === bindingId(binding))) return;
+
+      const other = findConflict(bindings, binding, capturing);
+      if (other) {
+        setConflict({ action: capturing, binding, other });
+      } else {
+        onChange(addBinding(bindings, capturing, binding));
+      }
+    };
+
+    // Capture phase, so the game never sees the key being bound
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setCapturing(null);
+      } else if (e.code) {
+        offer({ device: 'keyboard', code: e.code });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+
+    // Controller buttons already down when capture started don't count
+    const held = new Set<string>();
+    for (const pad of navigator.getGamepads?.() ?? []) {
+      pad?.buttons.forEach((button, i) => {
+        if (button.pressed) held.add(`${pad.index}:${i}`);
+      });
+    }
+    let frame = requestAnimationFrame(function poll() {
+      for (const pad of navigator.getGamepads?.() ?? []) {
+        const button = pad?.buttons.findIndex((b, i) => b.pressed && !held.has(`${pad.index}:${i}`)) ?? -1;
+        if (button !== -1) {
+          offer({ device: 'gamepad', button });
+          return;
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    });
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      cancelAnimationFrame(frame);
+    };
+  }, [capturing, bindings, onChange]);
+
+  const handleResolveConflict = () => {
+    if (conflict) {
+      onChange(addBinding(bindings, conflict.action, conflict.binding));
+      setConflict(null);
+    }
+  };
+
+  const chipClass = 'inline-flex items-center gap-1 rounded-lg border border-game-border px-2 py-1 font-mono text-xs text-text-primary';
+  const linkClass = 'text-xs font-semibold text-text-secondary hover:text-text-primary hover:underline underline-offset-4';
+
+  return (
+    <div className="space-y-3 text-sm text-left">
+      {INPUT_ACTIONS.map(action => (
+        <div key={action} className="flex flex-wrap items-center gap-2">
+          <span className="w-36 font-semibold text-text-primary">{ACTION_LABELS[action]}</span>
+          {bindings[action].map(binding => (
+            <span key={bindingId(binding)} className={chipClass}>
+              {describeBinding(binding)}
+              <button
+                onClick={() => onChange(removeBinding(bindings, action, binding))}
+                disabled={bindings[action].length === 1}
+                className="text-text-secondary hover:text-red-600 disabled:opacity-30 disabled:hover:text-text-secondary"
+                aria-label={`Remove ${describeBinding(binding)} from ${ACTION_LABELS[action]}`}
+                title={bindings[action].length === 1 ? 'Every action needs at least one binding' : undefined}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {capturing === action ? (
+            <span className="text-xs text-text-secondary animate-pulse">Press a key or controller button (Esc to cancel)</span>
+          ) : (
+            <button
+              onClick={() => {
+                setConflict(null);
+                setCapturing(action);
+              }}
+              className={linkClass}
+            >
+              + Add
+            </button>
+          )}
+        </div>
+      ))}
+
+      {conflict && (
+        <div role="alert" className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-amber-800 text-xs flex flex-wrap items-center gap-3">
+          <span className="flex-1">
+            {describeBinding(conflict.binding)} is already used for {ACTION_LABELS[conflict.other]}
+            {bindings[conflict.other].length === 1 ? ' and is its only binding. Give it another one first.' : '.'}
+          </span>
+          {bindings[conflict.other].length > 1 && (
+            <button onClick={handleResolveConflict} className="font-semibold hover:underline underline-offset-4">
+              Use it for {ACTION_LABELS[conflict.action]}
+            </button>
+          )}
+          <button onClick={() => setConflict(null)} className="font-semibold hover:underline underline-offset-4">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => {
+          setConflict(null);
+          onChange(DEFAULT_BINDINGS);
+        }}
+        className={linkClass}
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -1,21 +1,90 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
 import { GameEngine } from '@/lib/gameEngine';
-import { GameState } from '@/types/game';
+import { useGameEngine } from '@/hooks/useGameEngine';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { downloadFile } from '@/lib/download';
+import { serializeRecording } from '@/lib/inputRecording';
+import {
+  MAX_NAME_LENGTH,
+  addHighScore,
+  findRank,
+  getHighScores,
+  getLastPlayerName,
+  setLastPlayerName,
+} from '@/lib/highScores';
+import { registerServiceWorker } from '@/lib/serviceWorker';
+import { DEFAULT_BINDINGS, describeBinding, saveBindings } from '@/lib/inputBindings';
+import { DEFAULT_AUDIO_SETTINGS } from '@/lib/audio';
+import { THEME_PREFERENCES } from '@/lib/themes';
+import { DEFAULT_ACCESSIBILITY_SETTINGS, describeStateChange } from '@/lib/accessibility';
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, DIFFICULTY_PRESETS } from '@/lib/difficulty';
+import { isRunActive } from '@/lib/gamePhase';
+import HighScoreTable from '@/components/HighScoreTable';
+import ControlSettings from '@/components/ControlSettings';
+import SoundSettings from '@/components/SoundSettings';
+import AccessibilityOptions from '@/components/AccessibilityOptions';
+import { AccessibilitySettings } from '@/types/accessibility';
+import { AudioSettings } from '@/types/audio';
+import { DifficultyId } from '@/types/difficulty';
+import { ThemePreference } from '@/types/theme';
+import { FinishedRun, HighScoreEntry } from '@/types/highScore';
+import { InputAction, InputBindings } from '@/types/input';
+import { LevelDefinition } from '@/types/level';
 
-export default function Game() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const gameEngineRef = useRef<GameEngine | null>(null);
-  const [gameState, setGameState] = useState<GameState | null>(null);
+// Keyboard bindings of an action for the controls card, e.g. '← or A'
+function describeKeys(bindings: InputBindings, action: InputAction): string {
+  const keys = bindings[action].filter(binding => binding.device === 'keyboard').map(describeBinding);
+  return keys.length > 0 ? keys.join(' or ') : 'unbound';
+}
+
+interface GameProps {
+  // Play this layout as level 1 instead of the bundled one
+  level?: LevelDefinition;
+  // Shows a back button that calls this, e.g. to return to the editor
+  onExit?: () => void;
+  exitLabel?: string;
+}
+
+export default function Game({ level, onExit, exitLabel = 'Back' }: GameProps = {}) {
+  const [engine, setEngine] = useState<GameEngine | null>(null);
+  const snapshot = useGameEngine(engine);
+  const gameState = snapshot?.game ?? null;
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const [raceGhost, setRaceGhost] = useState(false);
+  const [highScores, setHighScores] = useState<HighScoreEntry[] | null>(null);
+  // Difficulty whose table is shown
+  const [highScoreDifficulty, setHighScoreDifficulty] = useState<DifficultyId>(DEFAULT_DIFFICULTY);
+  const [showHighScores, setShowHighScores] = useState(false);
+  // A finished run that made the table and is waiting for a name
+  const [pendingRun, setPendingRun] = useState<{ run: FinishedRun; difficulty: DifficultyId; rank: number } | null>(null);
+  const [playerName, setPlayerName] = useState('');
+  const [latestEntryId, setLatestEntryId] = useState<string | null>(null);
+  const [highScoreError, setHighScoreError] = useState<string | null>(null);
+  const canContinue = snapshot?.canContinue ?? false;
+  const savedGameNotice = snapshot?.savedGameNotice ?? null;
+  const difficulty = snapshot?.difficulty ?? DEFAULT_DIFFICULTY;
+  const gamepadName = snapshot?.gamepadName ?? null;
+  const bindings = snapshot?.bindings ?? DEFAULT_BINDINGS;
+  const audioSettings = snapshot?.audioSettings ?? DEFAULT_AUDIO_SETTINGS;
+  const themePreference = snapshot?.themePreference ?? 'system';
+  const accessibilitySettings = snapshot?.accessibility ?? DEFAULT_ACCESSIBILITY_SETTINGS;
+  const [showControlSettings, setShowControlSettings] = useState(false);
+  const [showSoundSettings, setShowSoundSettings] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  // Latest event read out by screen readers
+  const [announcement, setAnnouncement] = useState('');
+  // Activates a newer version of the app that is installed and waiting
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
 
   useEffect(() => {
     // Calculate responsive canvas size
     const updateCanvasSize = () => {
       const maxWidth = Math.min(window.innerWidth - 40, 800);
       const maxHeight = Math.min(window.innerHeight - 200, 600);
-      const aspectRatio = 4 / 3;
+      const aspectRatio = PLAYFIELD_WIDTH / PLAYFIELD_HEIGHT;
 
       let width = maxWidth;
       let height = maxWidth / aspectRatio;
@@ -36,62 +105,165 @@ export default function Game() {
     };
   }, []);
 
+  // The engine lives as long as the canvas; a different level gets a fresh one
+  const canvasRef = useCallback((canvas: HTMLCanvasElement | null) => {
+    if (!canvas) return;
+    const created = new GameEngine(canvas, { level });
+    setEngine(created);
+    return () => {
+      created.destroy();
+      setEngine(null);
+    };
+  }, [level]);
+
   useEffect(() => {
-    if (!canvasRef.current) return;
+    engine?.updateCanvasSize();
+  }, [engine, canvasSize]);
 
-    const canvas = canvasRef.current;
-    canvas.width = canvasSize.width;
-    canvas.height = canvasSize.height;
+  useEffect(() => {
+    // Play-tests of custom levels don't count towards high scores
+    if (!engine || level) return;
 
-    if (gameEngineRef.current) {
-      // Update existing game engine with new canvas size
-      gameEngineRef.current.updateCanvasSize();
-    } else {
-      // Create new game engine
-      gameEngineRef.current = new GameEngine(canvas);
-    }
+    return engine.on('gameOver', ({ state }) => {
+      const run: FinishedRun = {
+        score: state.score,
+        level: state.level,
+        date: new Date().toISOString(),
+        duration: Math.round(state.time),
+      };
+      getHighScores(state.difficulty)
+        .then(entries => {
+          const rank = findRank(entries, run.score);
+          if (rank !== null) {
+            setPlayerName(getLastPlayerName());
+            setPendingRun({ run, difficulty: state.difficulty, rank });
+          }
+        })
+        .catch(() => setHighScoreError('High scores could not be loaded.'));
+    });
+  }, [engine, level]);
 
-    // Update game state periodically
-    const interval = setInterval(() => {
-      if (gameEngineRef.current) {
-        setGameState(gameEngineRef.current.getGameState());
-      }
-    }, 60); // Faster updates for smoother UI
+  useEffect(() => {
+    if (!engine) return;
 
-    return () => {
-      clearInterval(interval);
-    };
-  }, [canvasSize]);
+    let previous = engine.getSnapshot().game;
+    return engine.on('stateChanged', ({ game }) => {
+      const message = describeStateChange(previous, game);
+      previous = game;
+      if (message) {
+        setAnnouncement(message);
+      }
+    });
+  }, [engine]);
 
-  // Clean up when component unmounts
   useEffect(() => {
-    return () => {
-      if (gameEngineRef.current) {
-        gameEngineRef.current.destroy();
-      }
-    };
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
   }, []);
 
   const handleReset = () => {
-    if (gameEngineRef.current) {
-      gameEngineRef.current.reset();
-      setGameState(gameEngineRef.current.getGameState());
-    }
+    engine?.reset();
+    setPendingRun(null);
   };
 
   const handleStart = () => {
-    if (gameEngineRef.current) {
-      gameEngineRef.current.start();
+    engine?.start();
+  };
+
+  const handlePlayAgain = () => {
+    handleReset();
+    handleStart();
+  };
+
+  // Clicking a button shouldn't leave it focused, or Space would press it again instead of pausing
+  const keepFocusOnMouseDown = (e: React.MouseEvent) => {
+    if ((e.target as HTMLElement).closest('button')) {
+      e.preventDefault();
     }
   };
 
+  const handleContinue = () => {
+    engine?.continueSavedGame();
+  };
+
+  const handleDismissSavedGameNotice = () => {
+    engine?.dismissSavedGameNotice();
+  };
+
   const handlePause = () => {
-    if (gameEngineRef.current) {
-      if (gameState?.isPaused) {
-        gameEngineRef.current.resume();
-      } else {
-        gameEngineRef.current.pause();
-      }
+    if (gameState?.phase === 'paused') {
+      engine?.resume();
+    } else {
+      engine?.pause();
+    }
+  };
+
+  const handleBindingsChange = (next: InputBindings) => {
+    saveBindings(next);
+    engine?.setBindings(next);
+  };
+
+  const handleAudioSettingsChange = (next: AudioSettings) => {
+    engine?.setAudioSettings(next);
+  };
+
+  const handleThemeChange = (next: ThemePreference) => {
+    engine?.setThemePreference(next);
+  };
+
+  const handleDifficultyChange = (next: DifficultyId) => {
+    engine?.setDifficulty(next);
+  };
+
+  const handleAccessibilityChange = (next: AccessibilitySettings) => {
+    engine?.setAccessibilitySettings(next);
+  };
+
+  const handleRaceGhostChange = (enabled: boolean) => {
+    setRaceGhost(enabled);
+    engine?.setGhostEnabled(enabled);
+  };
+
+  const handleSaveHighScore = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!pendingRun) return;
+
+    setLastPlayerName(playerName);
+    try {
+      const { entries, entry } = await addHighScore(pendingRun.difficulty, pendingRun.run, playerName);
+      setHighScoreDifficulty(pendingRun.difficulty);
+      setHighScores(entries);
+      setLatestEntryId(entry?.id ?? null);
+      setShowHighScores(true);
+      setHighScoreError(null);
+    } catch {
+      setHighScoreError('Your score could not be saved.');
+    }
+    setPendingRun(null);
+  };
+
+  const showHighScoresFor = (next: DifficultyId) => {
+    setHighScoreDifficulty(next);
+    setHighScores(null);
+    getHighScores(next)
+      .then(entries => {
+        setHighScores(entries);
+        setHighScoreError(null);
+      })
+      .catch(() => setHighScoreError('High scores could not be loaded.'));
+  };
+
+  const handleToggleHighScores = () => {
+    if (!showHighScores) {
+      showHighScoresFor(gameState?.difficulty ?? difficulty);
+    }
+    setShowHighScores(!showHighScores);
+  };
+
+  // Save this run's inputs so it can be replayed exactly, e.g. for a bug report
+  const handleDownloadRecording = () => {
+    if (engine) {
+      const recording = engine.getRecording();
+      downloadFile(`bricks-and-balls-${recording.seed}.json`, serializeRecording(recording));
     }
   };
 
@@ -111,41 +283,129 @@ export default function Game() {
         <div className="relative group">
           <canvas
             ref={canvasRef}
+            role="img"
+            aria-label={`Bricks & Balls playfield: ${DIFFICULTY_PRESETS[gameState?.difficulty ?? difficulty].name}, level ${gameState?.level ?? 1}, score ${gameState?.score ?? 0}, ${gameState?.lives ?? 0} lives`}
             className="game-canvas transition-all duration-300 ease-in-out"
             style={{
               width: canvasSize.width,
-              height: canvasSize.height,
               maxWidth: '100%',
+              aspectRatio: `${PLAYFIELD_WIDTH} / ${PLAYFIELD_HEIGHT}`,
             }}
           />
+          {/* Name entry for a run that made the high-score table */}
+          {pendingRun && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <form
+                onSubmit={handleSaveHighScore}
+                onKeyDown={e => e.key === 'Escape' && setPendingRun(null)}
+                className="surface-primary rounded-2xl p-6 text-center border border-game-border shadow-game animate-bounce-in w-72 max-w-[90%]"
+              >
+                <h3 className="text-xl font-bold text-text-primary mb-1">New High Score!</h3>
+                <p className="text-text-secondary text-sm mb-4">
+                  {pendingRun.run.score} points • #{pendingRun.rank + 1} on the table
+                </p>
+                <input
+                  autoFocus
+                  value={playerName}
+                  onChange={e => setPlayerName(e.target.value)}
+                  maxLength={MAX_NAME_LENGTH}
+                  placeholder="Your name"
+                  aria-label="Your name"
+                  className="w-full rounded-xl border border-game-border bg-transparent px-3 py-2 text-text-primary text-center mb-4"
+                />
+                <div className="flex justify-center gap-2">
+                  <button type="submit" className="btn-game px-4 py-2 rounded-xl font-semibold text-sm bg-gradient-primary text-white shadow-soft">
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPendingRun(null)}
+                    className="btn-game px-4 py-2 rounded-xl font-semibold text-sm surface-primary text-text-primary shadow-soft"
+                  >
+                    Skip
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
           {/* Game Status Overlay */}
-          {gameState && !gameState.isRunning && (
+          {gameState && !isRunActive(gameState.phase) && !pendingRun && (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="surface-primary rounded-2xl p-6 text-center border border-game-border shadow-game animate-bounce-in">
                 <h3 className="text-xl font-bold text-text-primary mb-2">
-                  {gameState.lives === 0 ? 'Game Over!' : 'Ready to Play?'}
+                  {gameState.phase === 'gameOver' ? 'Game Over!' : 'Ready to Play?'}
                 </h3>
                 <p className="text-text-secondary text-sm">
-                  {gameState.lives === 0 ? 'Click Reset to try again' : 'Click Start to begin'}
+                  {gameState.phase === 'gameOver'
+                    ? `Final score ${gameState.score}`
+                    : `Press ${describeKeys(bindings, 'pause')} or click Start to begin`}
+                </p>
+                <div role="group" aria-label="Difficulty" className="flex flex-wrap justify-center gap-1 mt-4">
+                  {DIFFICULTIES.map(id => (
+                    <button
+                      key={id}
+                      onClick={() => handleDifficultyChange(id)}
+                      aria-pressed={difficulty === id}
+                      className={`px-3 py-1 rounded-lg text-xs font-semibold border border-game-border ${
+                        difficulty === id ? 'bg-gradient-primary text-white' : 'text-text-secondary hover:text-text-primary'
+                      }`}
+                    >
+                      {DIFFICULTY_PRESETS[id].name}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-text-secondary text-xs mt-2">
+                  {DIFFICULTY_PRESETS[difficulty].description}
+                  {gameState.phase === 'gameOver' && difficulty !== gameState.difficulty && ' • from your next game'}
                 </p>
+                <div className="flex flex-wrap justify-center gap-2 mt-4">
+                  <button
+                    onClick={gameState.phase === 'gameOver' ? handlePlayAgain : handleStart}
+                    className="btn-game px-6 py-2 rounded-xl font-semibold text-sm bg-gradient-primary text-white shadow-soft"
+                  >
+                    {gameState.phase === 'gameOver' ? 'Play again' : 'Start'}
+                  </button>
+                  {canContinue && gameState.phase === 'title' && (
+                    <button
+                      onClick={handleContinue}
+                      className="btn-game px-6 py-2 rounded-xl font-semibold text-sm surface-primary text-text-primary shadow-soft"
+                    >
+                      Continue last game
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           )}
         </div>
       </div>
 
-      <div className="flex flex-wrap justify-center gap-4 mb-8 animate-fade-in-up">
-        <button
-          onClick={handleStart}
-          className="btn-game inline-flex items-center px-8 py-4 bg-gradient-primary text-white rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong transform hover:-translate-y-1"
-        >
-          <svg className="w-6 h-6 mr-3" fill="currentColor" viewBox="0 0 20 20">
-            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-          </svg>
-          Start Game
-        </button>
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {announcement}
+      </div>
+
+      {gamepadName && (
+        <div role="status" className="inline-flex items-center gap-2 -mt-4 mb-6 px-4 py-2 rounded-full surface-primary shadow-soft text-sm text-text-secondary animate-fade-in-up">
+          <span className="font-semibold text-text-primary">🎮 {gamepadName}</span>
+          <span>Stick or D-pad to move • A to start and launch • Start to pause</span>
+        </div>
+      )}
 
-        {gameState?.isRunning && (
+      <div className="flex flex-wrap justify-center gap-4 mb-8 animate-fade-in-up" onMouseDown={keepFocusOnMouseDown}>
+        {/* Starting only means something before a run, and after one it starts the next */}
+        {(!gameState || !isRunActive(gameState.phase)) && (
+          <button
+            onClick={gameState?.phase === 'gameOver' ? handlePlayAgain : handleStart}
+            className="btn-game inline-flex items-center px-8 py-4 bg-gradient-primary text-white rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong transform hover:-translate-y-1"
+          >
+            <svg className="w-6 h-6 mr-3" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+            </svg>
+            {gameState?.phase === 'gameOver' ? 'Play Again' : 'Start Game'}
+          </button>
+        )}
+
+        {gameState && isRunActive(gameState.phase) && (
           <button
             onClick={handlePause}
             className="btn-game inline-flex items-center px-8 py-4 bg-gradient-accent text-white rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong transform hover:-translate-y-1"
@@ -153,7 +413,7 @@ export default function Game() {
             <svg className="w-6 h-6 mr-3" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
             </svg>
-            {gameState?.isPaused ? 'Resume' : 'Pause'}
+            {gameState.phase === 'paused' ? 'Resume' : 'Pause'}
           </button>
         )}
 
@@ -166,9 +426,154 @@ export default function Game() {
           </svg>
           Reset
         </button>
+
+        <button
+          onClick={handleDownloadRecording}
+          title="Download this run's inputs to attach to a bug report"
+          className="btn-game inline-flex items-center px-8 py-4 surface-primary text-text-primary rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong transform hover:-translate-y-1"
+        >
+          <svg className="w-6 h-6 mr-3" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+          Recording
+        </button>
+
+        {onExit && (
+          <button
+            onClick={onExit}
+            className="btn-game inline-flex items-center px-8 py-4 surface-primary text-text-primary rounded-2xl font-bold text-lg transition-all duration-300 shadow-game hover:shadow-game-strong transform hover:-translate-y-1"
+          >
+            <svg className="w-6 h-6 mr-3" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            {exitLabel}
+          </button>
+        )}
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-center max-w-2xl mb-8 animate-fade-in-up">
+      <div className="flex flex-wrap justify-center items-center gap-6 -mt-4 mb-8 text-sm font-semibold text-text-secondary animate-fade-in-up">
+        <button
+          onClick={() => handleAudioSettingsChange({ ...audioSettings, muted: !audioSettings.muted })}
+          aria-pressed={audioSettings.muted}
+          title={`${audioSettings.muted ? 'Unmute' : 'Mute'} (${describeKeys(bindings, 'mute')})`}
+          className="font-semibold hover:text-text-primary hover:underline underline-offset-4"
+        >
+          {audioSettings.muted ? '🔇 Sound off' : '🔊 Sound on'}
+        </button>
+        <button
+          onClick={() => setShowSoundSettings(!showSoundSettings)}
+          aria-expanded={showSoundSettings}
+          className="font-semibold hover:text-text-primary hover:underline underline-offset-4"
+        >
+          {showSoundSettings ? 'Hide volume' : 'Volume'}
+        </button>
+        <button
+          onClick={() => setShowAccessibility(!showAccessibility)}
+          aria-expanded={showAccessibility}
+          className="font-semibold hover:text-text-primary hover:underline underline-offset-4"
+        >
+          {showAccessibility ? 'Hide accessibility' : 'Accessibility'}
+        </button>
+        <label className="inline-flex items-center gap-2">
+          Theme
+          <select
+            value={themePreference}
+            onChange={e => handleThemeChange(e.target.value as ThemePreference)}
+            className="rounded-lg border border-game-border surface-primary px-2 py-1 text-text-primary"
+          >
+            {THEME_PREFERENCES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {!level && (
+          <>
+            <label className="inline-flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={raceGhost}
+                onChange={e => handleRaceGhostChange(e.target.checked)}
+              />
+              Race a ghost of your best run
+            </label>
+            <Link href="/replay" className="hover:text-text-primary hover:underline underline-offset-4">
+              Watch replays
+            </Link>
+            <button
+              onClick={handleToggleHighScores}
+              aria-expanded={showHighScores}
+              className="font-semibold hover:text-text-primary hover:underline underline-offset-4"
+            >
+              {showHighScores ? 'Hide high scores' : 'High scores'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {showAccessibility && (
+        <div className="surface-secondary rounded-2xl p-6 max-w-lg w-full mb-8 shadow-soft animate-fade-in-up">
+          <h3 className="text-text-primary font-bold mb-4 text-lg text-center">Accessibility</h3>
+          <AccessibilityOptions settings={accessibilitySettings} onChange={handleAccessibilityChange} />
+        </div>
+      )}
+
+      {showSoundSettings && (
+        <div className="surface-secondary rounded-2xl p-6 max-w-lg w-full mb-8 shadow-soft animate-fade-in-up">
+          <h3 className="text-text-primary font-bold mb-4 text-lg text-center">Sound</h3>
+          <SoundSettings settings={audioSettings} onChange={handleAudioSettingsChange} />
+        </div>
+      )}
+
+      {applyUpdate && (
+        <div role="status" className="flex items-center gap-4 rounded-xl border border-game-border surface-primary p-3 mb-8 text-text-primary text-sm max-w-lg w-full shadow-soft">
+          <span className="flex-1">A new version of Bricks &amp; Balls is available.</span>
+          <button onClick={applyUpdate} className="btn-game px-4 py-2 rounded-xl font-semibold bg-gradient-primary text-white shadow-soft">
+            Reload
+          </button>
+        </div>
+      )}
+
+      {savedGameNotice && (
+        <div role="status" className="flex items-center gap-4 rounded-xl border border-amber-300 bg-amber-50 p-3 mb-8 text-amber-800 text-sm max-w-lg w-full">
+          <span className="flex-1">{savedGameNotice}</span>
+          <button onClick={handleDismissSavedGameNotice} className="font-semibold hover:underline underline-offset-4">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {highScoreError && (
+        <div role="alert" className="rounded-xl border border-red-300 bg-red-50 p-3 mb-8 text-red-700 text-sm max-w-lg w-full">
+          {highScoreError}
+        </div>
+      )}
+
+      {!level && showHighScores && (
+        <div className="surface-secondary rounded-2xl p-6 max-w-lg w-full mb-8 shadow-soft animate-fade-in-up">
+          <h3 className="text-text-primary font-bold mb-4 text-lg text-center">High Scores</h3>
+          <div role="group" aria-label="High scores for difficulty" className="flex flex-wrap justify-center gap-1 mb-4">
+            {DIFFICULTIES.map(id => (
+              <button
+                key={id}
+                onClick={() => showHighScoresFor(id)}
+                aria-pressed={highScoreDifficulty === id}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold border border-game-border ${
+                  highScoreDifficulty === id ? 'bg-gradient-primary text-white' : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {DIFFICULTY_PRESETS[id].name}
+              </button>
+            ))}
+          </div>
+          {highScores ? (
+            <HighScoreTable entries={highScores} highlightId={latestEntryId} />
+          ) : (
+            <p className="text-text-secondary text-sm text-center">Loading…</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-6 text-center max-w-4xl mb-8 animate-fade-in-up">
         <div className="stat-card surface-primary rounded-2xl p-6 shadow-soft">
           <div className="text-text-secondary text-sm font-semibold mb-2 uppercase tracking-wide">Score</div>
           <div className="text-3xl font-bold text-text-primary">{gameState?.score || 0}</div>
@@ -190,17 +595,34 @@ export default function Game() {
           <div className="text-3xl font-bold text-text-primary">{gameState?.level || 1}</div>
           <div className="mt-2 w-8 h-1 bg-gradient-secondary rounded-full mx-auto"></div>
         </div>
+        <div className="stat-card surface-primary rounded-2xl p-6 shadow-soft">
+          <div className="text-text-secondary text-sm font-semibold mb-2 uppercase tracking-wide">Difficulty</div>
+          <div className="text-xl font-bold text-text-primary leading-9">
+            {DIFFICULTY_PRESETS[gameState?.difficulty ?? difficulty].name}
+          </div>
+          <div className="mt-2 w-8 h-1 bg-gradient-accent rounded-full mx-auto"></div>
+        </div>
         <div className="stat-card surface-primary rounded-2xl p-6 shadow-soft">
           <div className="text-text-secondary text-sm font-semibold mb-2 uppercase tracking-wide">Blocks</div>
           <div className="text-3xl font-bold text-text-primary">
-            {gameState?.blocks.filter(b => !b.destroyed).length || 0}
+            {gameState?.remainingBlocks || 0}
           </div>
           <div className="mt-2 w-8 h-1 bg-gradient-primary rounded-full mx-auto"></div>
         </div>
+        <div className="stat-card surface-primary rounded-2xl p-6 shadow-soft">
+          <div className="text-text-secondary text-sm font-semibold mb-2 uppercase tracking-wide">Balls</div>
+          <div className="text-3xl font-bold text-text-primary">{gameState?.ballCount || 1}</div>
+          <div className="mt-2 w-8 h-1 bg-gradient-accent rounded-full mx-auto"></div>
+        </div>
       </div>
 
       <div className="surface-secondary rounded-2xl p-6 text-center max-w-lg shadow-soft animate-fade-in-up">
         <h3 className="text-text-primary font-bold mb-4 text-lg">Game Controls</h3>
+        {showControlSettings && (
+          <div className="mb-6">
+            <ControlSettings bindings={bindings} onChange={handleBindingsChange} />
+          </div>
+        )}
         <div className="grid md:grid-cols-2 gap-4 text-sm">
           <div className="text-left">
             <div className="font-semibold text-text-primary mb-2 flex items-center">
@@ -210,8 +632,10 @@ export default function Game() {
               Desktop
             </div>
             <div className="text-text-secondary space-y-1">
-              <p>← → or A/D to move</p>
-              <p>Space to pause</p>
+              <p>{describeKeys(bindings, 'moveLeft')} / {describeKeys(bindings, 'moveRight')} to move</p>
+              <p>{describeKeys(bindings, 'pause')} to start or pause</p>
+              <p>{describeKeys(bindings, 'launch')} to launch a held ball</p>
+              <p>{describeKeys(bindings, 'mute')} to mute</p>
             </div>
           </div>
           <div className="text-left">
@@ -227,6 +651,13 @@ export default function Game() {
             </div>
           </div>
         </div>
+        <button
+          onClick={() => setShowControlSettings(!showControlSettings)}
+          aria-expanded={showControlSettings}
+          className="mt-4 text-sm font-semibold text-text-secondary hover:text-text-primary hover:underline underline-offset-4"
+        >
+          {showControlSettings ? 'Done' : 'Customize keys and buttons'}
+        </button>
       </div>
     </div>
   );
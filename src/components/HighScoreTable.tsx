@@ -0,0 +1,50 @@
+'use client';
+
+import { HighScoreEntry } from '@/types/highScore';
+
+interface HighScoreTableProps {
+  entries: HighScoreEntry[];
+  // Entry to highlight, e.g. the one just added
+  highlightId?: string | null;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+export default function HighScoreTable({ entries, highlightId }: HighScoreTableProps) {
+  if (entries.length === 0) {
+    return <p className="text-text-secondary text-sm">No scores yet. Finish a game to set one.</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-text-secondary text-xs uppercase tracking-wide">
+          <th className="py-2 text-left">#</th>
+          <th className="py-2 text-left">Name</th>
+          <th className="py-2 text-right">Score</th>
+          <th className="py-2 text-right">Level</th>
+          <th className="py-2 text-right">Time</th>
+          <th className="py-2 text-right hidden sm:table-cell">Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, i) => (
+          <tr
+            key={entry.id}
+            className={`border-t border-game-border ${entry.id === highlightId ? 'font-bold text-text-primary' : 'text-text-secondary'}`}
+          >
+            <td className="py-2 text-left">{i + 1}</td>
+            <td className="py-2 text-left">{entry.name}</td>
+            <td className="py-2 text-right font-mono">{entry.score}</td>
+            <td className="py-2 text-right">{entry.level}</td>
+            <td className="py-2 text-right font-mono">{formatDuration(entry.duration)}</td>
+            <td className="py-2 text-right hidden sm:table-cell">{new Date(entry.date).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
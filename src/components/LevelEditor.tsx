@@ -0,0 +1,618 @@
+'use client';
+
+import { ChangeEvent, PointerEvent, useEffect, useRef, useState } from 'react';
+import Game from '@/components/Game';
+import { GameRenderer } from '@/lib/renderer';
+import { downloadFile } from '@/lib/download';
+import { BLOCK_TYPES, BLOCK_TYPE_RULES, MAX_BLOCK_HITS } from '@/lib/blockTypes';
+import {
+  LevelValidationError,
+  buildLevelBlocks,
+  formatIssue,
+  parseLevel,
+  serializeLevel,
+  validateLevel,
+} from '@/lib/levels';
+import {
+  BrickBrush,
+  EditorRect,
+  brickAt,
+  brushFields,
+  bricksInRect,
+  createEmptyLevel,
+  loadDraft,
+  moveBricks,
+  normalizeRect,
+  overlapsAny,
+  saveDraft,
+  snap,
+  snapBrickPosition,
+} from '@/lib/levelEditor';
+import { BlockType } from '@/types/game';
+import { LEVEL_DESIGN_HEIGHT, LEVEL_DESIGN_WIDTH, LevelBrick, LevelDefinition } from '@/types/level';
+
+type Tool = 'place' | 'paint' | 'erase' | 'select';
+
+const TOOLS: Array<{ id: Tool; label: string; shortcut: string }> = [
+  { id: 'place', label: 'Place', shortcut: 'B' },
+  { id: 'paint', label: 'Paint', shortcut: 'P' },
+  { id: 'erase', label: 'Erase', shortcut: 'E' },
+  { id: 'select', label: 'Select', shortcut: 'V' },
+];
+
+const SNAP_STEPS = [5, 10, 20, 40];
+
+const PALETTE = [
+  '#ff6b6b', '#feca57', '#48cae4', '#06ffa5',
+  '#ff9ff3', '#f38ba8', '#a6e3a1', '#fab387'
+];
+
+const DEFAULT_BACKGROUND = '#f8f9fa';
+const MAX_HISTORY = 200;
+
+interface History {
+  past: LevelDefinition[];
+  present: LevelDefinition;
+  future: LevelDefinition[];
+}
+
+// In-progress pointer gesture
+type Drag =
+  | { kind: 'stroke'; base: LevelDefinition }
+  | { kind: 'move'; base: LevelDefinition; startX: number; startY: number }
+  | { kind: 'marquee'; startX: number; startY: number; initial: Set<number> };
+
+export default function LevelEditor() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [history, setHistory] = useState<History>(() => ({
+    past: [],
+    present: loadDraft() ?? createEmptyLevel(),
+    future: [],
+  }));
+  const [tool, setTool] = useState<Tool>('place');
+  const [snapStep, setSnapStep] = useState(5);
+  const [brush, setBrush] = useState<BrickBrush>({
+    type: 'standard',
+    color: PALETTE[0],
+    points: 10,
+    hits: 1,
+    width: 80,
+    height: 25,
+  });
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const [marquee, setMarquee] = useState<EditorRect | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [playtest, setPlaytest] = useState<LevelDefinition | null>(null);
+
+  const level = history.present;
+
+  useEffect(() => {
+    saveDraft(level);
+  }, [level]);
+
+  const commit = (update: (current: LevelDefinition) => LevelDefinition) => {
+    setHistory(h => {
+      const next = update(h.present);
+      if (next === h.present) return h;
+      return { past: [...h.past, h.present].slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  };
+
+  // Change the present without recording history; used mid-gesture
+  const replacePresent = (update: (current: LevelDefinition) => LevelDefinition) => {
+    setHistory(h => ({ ...h, present: update(h.present) }));
+  };
+
+  // Record a finished gesture as a single undo step
+  const endGesture = (base: LevelDefinition) => {
+    setHistory(h => h.present === base
+      ? h
+      : { past: [...h.past, base].slice(-MAX_HISTORY), present: h.present, future: [] });
+  };
+
+  const undo = () => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+    setSelection(new Set());
+  };
+
+  const redo = () => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+    setSelection(new Set());
+  };
+
+  const updateBricks = (update: (bricks: LevelBrick[]) => LevelBrick[]) => (current: LevelDefinition) => {
+    const bricks = update(current.bricks);
+    return bricks === current.bricks ? current : { ...current, bricks };
+  };
+
+  const placeAt = (x: number, y: number) => updateBricks(bricks => {
+    const position = snapBrickPosition(x, y, brush, snapStep);
+    const rect = { ...position, width: brush.width, height: brush.height };
+    if (overlapsAny(bricks, rect)) return bricks;
+    return [...bricks, { ...rect, ...brushFields(brush) }];
+  });
+
+  const paintAt = (x: number, y: number) => updateBricks(bricks => {
+    const index = brickAt(bricks, x, y);
+    if (index < 0) return bricks;
+    const brick = bricks[index];
+    if (brick.type === brush.type && brick.color === brush.color && brick.points === brush.points && brick.hits === brush.hits) {
+      return bricks;
+    }
+    return bricks.map((b, i) => i === index ? { ...b, ...brushFields(brush) } : b);
+  });
+
+  const eraseAt = (x: number, y: number) => updateBricks(bricks => {
+    const index = brickAt(bricks, x, y);
+    return index < 0 ? bricks : bricks.filter((_, i) => i !== index);
+  });
+
+  const deleteSelection = () => {
+    if (selection.size === 0) return;
+    commit(updateBricks(bricks => bricks.filter((_, i) => !selection.has(i))));
+    setSelection(new Set());
+  };
+
+  const applyBrushToSelection = () => {
+    if (selection.size === 0) return;
+    commit(updateBricks(bricks => bricks.map((brick, i) =>
+      selection.has(i) ? { ...brick, ...brushFields(brush) } : brick
+    )));
+  };
+
+  const toDesignSpace = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (LEVEL_DESIGN_WIDTH / rect.width),
+      y: (e.clientY - rect.top) * (LEVEL_DESIGN_HEIGHT / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toDesignSpace(e);
+
+    if (tool === 'select') {
+      const index = brickAt(level.bricks, x, y);
+      if (index >= 0 && e.shiftKey) {
+        const next = new Set(selection);
+        if (next.has(index)) {
+          next.delete(index);
+        } else {
+          next.add(index);
+        }
+        setSelection(next);
+        return;
+      }
+      if (index >= 0) {
+        if (!selection.has(index)) setSelection(new Set([index]));
+        dragRef.current = { kind: 'move', base: level, startX: x, startY: y };
+        return;
+      }
+      const initial = e.shiftKey ? new Set(selection) : new Set<number>();
+      setSelection(initial);
+      dragRef.current = { kind: 'marquee', startX: x, startY: y, initial };
+      setMarquee({ x, y, width: 0, height: 0 });
+      return;
+    }
+
+    dragRef.current = { kind: 'stroke', base: level };
+    if (tool === 'erase') setSelection(new Set());
+    const apply = tool === 'place' ? placeAt : tool === 'paint' ? paintAt : eraseAt;
+    replacePresent(apply(x, y));
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toDesignSpace(e);
+    setHover({ x, y });
+
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.kind === 'stroke') {
+      const apply = tool === 'place' ? placeAt : tool === 'paint' ? paintAt : eraseAt;
+      replacePresent(apply(x, y));
+    } else if (drag.kind === 'move') {
+      const dx = snap(x - drag.startX, snapStep);
+      const dy = snap(y - drag.startY, snapStep);
+      replacePresent(() => ({ ...drag.base, bricks: moveBricks(drag.base.bricks, selection, dx, dy) }));
+    } else {
+      const area = { x: drag.startX, y: drag.startY, width: x - drag.startX, height: y - drag.startY };
+      setMarquee(area);
+      setSelection(new Set([...drag.initial, ...bricksInRect(level.bricks, area)]));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drag.kind === 'marquee') {
+      setMarquee(null);
+    } else {
+      endGesture(drag.base);
+    }
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+
+      const modifier = e.metaKey || e.ctrlKey;
+      if (modifier && e.code === 'KeyZ') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+      if (modifier && e.code === 'KeyY') {
+        e.preventDefault();
+        redo();
+        return;
+      }
+      if (modifier && e.code === 'KeyA') {
+        e.preventDefault();
+        setTool('select');
+        setSelection(new Set(level.bricks.map((_, i) => i)));
+        return;
+      }
+      if (modifier) return;
+
+      if (e.code === 'Delete' || e.code === 'Backspace') {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.code === 'Escape') {
+        setSelection(new Set());
+      } else if (e.code.startsWith('Arrow') && selection.size > 0) {
+        e.preventDefault();
+        const dx = e.code === 'ArrowLeft' ? -snapStep : e.code === 'ArrowRight' ? snapStep : 0;
+        const dy = e.code === 'ArrowUp' ? -snapStep : e.code === 'ArrowDown' ? snapStep : 0;
+        commit(updateBricks(bricks => moveBricks(bricks, selection, dx, dy)));
+      } else {
+        const shortcut = TOOLS.find(t => `Key${t.shortcut}` === e.code);
+        if (shortcut) setTool(shortcut.id);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Draw the layout, grid, selection and tool preview
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || playtest) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // The canvas is remounted after a play-test, so don't hold on to a renderer
+    const renderer = new GameRenderer(ctx, LEVEL_DESIGN_WIDTH, LEVEL_DESIGN_HEIGHT);
+    const blocks = buildLevelBlocks(level, { canvasWidth: LEVEL_DESIGN_WIDTH, canvasHeight: LEVEL_DESIGN_HEIGHT });
+    renderer.drawField(level.background ?? DEFAULT_BACKGROUND, blocks);
+
+    // Snap grid, thinned out so small steps don't turn into a grey wash
+    const gridStep = snapStep * Math.ceil(10 / snapStep);
+    ctx.save();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.06)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 0; x <= LEVEL_DESIGN_WIDTH; x += gridStep) {
+      ctx.moveTo(x + 0.5, 0);
+      ctx.lineTo(x + 0.5, LEVEL_DESIGN_HEIGHT);
+    }
+    for (let y = 0; y <= LEVEL_DESIGN_HEIGHT; y += gridStep) {
+      ctx.moveTo(0, y + 0.5);
+      ctx.lineTo(LEVEL_DESIGN_WIDTH, y + 0.5);
+    }
+    ctx.stroke();
+
+    // Selection outlines
+    ctx.strokeStyle = '#007AFF';
+    ctx.lineWidth = 2;
+    selection.forEach(index => {
+      const brick = level.bricks[index];
+      if (brick) ctx.strokeRect(brick.x - 2, brick.y - 2, brick.width + 4, brick.height + 4);
+    });
+
+    // Ghost of the brick the place tool would add
+    if (tool === 'place' && hover) {
+      const position = snapBrickPosition(hover.x, hover.y, brush, snapStep);
+      const blocked = overlapsAny(level.bricks, { ...position, width: brush.width, height: brush.height });
+      ctx.globalAlpha = 0.5;
+      ctx.fillStyle = blocked ? '#FF3B30' : brush.color;
+      ctx.fillRect(position.x, position.y, brush.width, brush.height);
+      ctx.globalAlpha = 1;
+    }
+
+    if (marquee) {
+      const area = normalizeRect(marquee);
+      ctx.fillStyle = 'rgba(0, 122, 255, 0.1)';
+      ctx.fillRect(area.x, area.y, area.width, area.height);
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(area.x, area.y, area.width, area.height);
+    }
+    ctx.restore();
+  }, [level, selection, hover, marquee, tool, brush, snapStep, playtest]);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseLevel(await file.text(), file.name);
+      commit(() => imported);
+      setSelection(new Set());
+      setIssues([]);
+    } catch (error) {
+      setIssues(error instanceof LevelValidationError
+        ? [`${file.name} could not be imported:`, ...error.issues.map(formatIssue)]
+        : [`${file.name} could not be read.`]);
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(`${level.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'level'}.json`, serializeLevel(level));
+  };
+
+  const handlePlaytest = () => {
+    try {
+      setPlaytest(validateLevel(level, 'This level'));
+      setIssues([]);
+    } catch (error) {
+      if (error instanceof LevelValidationError) {
+        setIssues(['Fix these before play-testing:', ...error.issues.map(issue => issue.message)]);
+      }
+    }
+  };
+
+  const handleNew = () => {
+    commit(() => createEmptyLevel());
+    setSelection(new Set());
+  };
+
+  if (playtest) {
+    return <Game level={playtest} onExit={() => setPlaytest(null)} exitLabel="Back to Editor" />;
+  }
+
+  const inputClass = 'w-full rounded-xl border border-game-border bg-transparent px-3 py-2 text-text-primary';
+  const buttonClass = 'btn-game px-4 py-2 rounded-xl font-semibold text-sm shadow-soft disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-gradient-surface p-4">
+      <div className="text-center mb-6 animate-fade-in-up">
+        <h1 className="text-4xl font-bold text-text-primary mb-2 tracking-tight">Level Editor</h1>
+        <p className="text-text-secondary font-medium">
+          {level.bricks.length} bricks • drafts are saved in this browser
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        {TOOLS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTool(t.id)}
+            aria-pressed={tool === t.id}
+            className={`${buttonClass} ${tool === t.id ? 'bg-gradient-primary text-white' : 'surface-primary text-text-primary'}`}
+          >
+            {t.label} <span className="opacity-60">({t.shortcut})</span>
+          </button>
+        ))}
+        <button onClick={undo} disabled={history.past.length === 0} className={`${buttonClass} surface-primary text-text-primary`}>
+          Undo
+        </button>
+        <button onClick={redo} disabled={history.future.length === 0} className={`${buttonClass} surface-primary text-text-primary`}>
+          Redo
+        </button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6 items-start w-full max-w-6xl justify-center">
+        <div className="game-container w-full max-w-[800px]">
+          <canvas
+            ref={canvasRef}
+            width={LEVEL_DESIGN_WIDTH}
+            height={LEVEL_DESIGN_HEIGHT}
+            className="game-canvas w-full"
+            style={{ touchAction: 'none', cursor: tool === 'select' ? 'default' : 'crosshair' }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => setHover(null)}
+          />
+        </div>
+
+        <div className="surface-primary rounded-2xl p-5 shadow-soft w-full lg:w-72 space-y-4 text-sm">
+          <label className="block">
+            <span className="font-semibold text-text-primary">Level name</span>
+            <input
+              className={inputClass}
+              value={level.name}
+              onChange={e => commit(current => ({ ...current, name: e.target.value }))}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="font-semibold text-text-primary">Background</span>
+              <input
+                type="color"
+                className="w-full h-9 rounded-xl"
+                value={level.background ?? DEFAULT_BACKGROUND}
+                onChange={e => commit(current => ({ ...current, background: e.target.value }))}
+              />
+            </label>
+            <label className="block">
+              <span className="font-semibold text-text-primary">Ball speed</span>
+              <input
+                type="number"
+                min={1}
+                placeholder="Default"
+                className={inputClass}
+                value={level.ballSpeed ?? ''}
+                onChange={e => commit(current => ({
+                  ...current,
+                  ballSpeed: e.target.value === '' ? undefined : Number(e.target.value),
+                }))}
+              />
+            </label>
+          </div>
+
+          <div>
+            <span className="font-semibold text-text-primary">Brick</span>
+            <div className="flex flex-wrap gap-2 my-2">
+              {PALETTE.map(color => (
+                <button
+                  key={color}
+                  aria-label={`Color ${color}`}
+                  onClick={() => setBrush(b => ({ ...b, color }))}
+                  className={`w-7 h-7 rounded-lg border-2 ${brush.color === color ? 'border-text-primary' : 'border-transparent'}`}
+                  style={{ background: color }}
+                />
+              ))}
+              <input
+                type="color"
+                aria-label="Custom color"
+                className="w-7 h-7 rounded-lg"
+                value={brush.color}
+                onChange={e => setBrush(b => ({ ...b, color: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-text-secondary">Type</span>
+                <select
+                  className={inputClass}
+                  value={brush.type}
+                  onChange={e => {
+                    const type = e.target.value as BlockType;
+                    setBrush(b => ({ ...b, type, hits: BLOCK_TYPE_RULES[type].defaultHits }));
+                  }}
+                >
+                  {BLOCK_TYPES.map(type => <option key={type} value={type}>{BLOCK_TYPE_RULES[type].label}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-text-secondary">Hits</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_BLOCK_HITS}
+                  className={inputClass}
+                  value={brush.hits}
+                  disabled={!BLOCK_TYPE_RULES[brush.type].breakable}
+                  onChange={e => setBrush(b => ({ ...b, hits: Math.min(MAX_BLOCK_HITS, Math.max(1, Math.round(Number(e.target.value) || 1))) }))}
+                />
+              </label>
+              <label className="block">
+                <span className="text-text-secondary">Points</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={10}
+                  className={inputClass}
+                  value={brush.points}
+                  onChange={e => setBrush(b => ({ ...b, points: Math.max(0, Math.round(Number(e.target.value) || 0)) }))}
+                />
+              </label>
+              <label className="block">
+                <span className="text-text-secondary">Width</span>
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  className={inputClass}
+                  value={brush.width}
+                  onChange={e => setBrush(b => ({ ...b, width: Math.max(5, Number(e.target.value) || 5) }))}
+                />
+              </label>
+              <label className="block">
+                <span className="text-text-secondary">Height</span>
+                <input
+                  type="number"
+                  min={5}
+                  step={5}
+                  className={inputClass}
+                  value={brush.height}
+                  onChange={e => setBrush(b => ({ ...b, height: Math.max(5, Number(e.target.value) || 5) }))}
+                />
+              </label>
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="font-semibold text-text-primary">Snap</span>
+            <select className={inputClass} value={snapStep} onChange={e => setSnapStep(Number(e.target.value))}>
+              {SNAP_STEPS.map(step => <option key={step} value={step}>{step} units</option>)}
+            </select>
+          </label>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={applyBrushToSelection}
+              disabled={selection.size === 0}
+              className={`${buttonClass} surface-secondary text-text-primary`}
+            >
+              Apply to selection
+            </button>
+            <button
+              onClick={deleteSelection}
+              disabled={selection.size === 0}
+              className={`${buttonClass} surface-secondary text-text-primary`}
+            >
+              Delete ({selection.size})
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 pt-2 border-t border-game-border">
+            <button onClick={handlePlaytest} className={`${buttonClass} bg-gradient-primary text-white`}>
+              Play-test
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} surface-secondary text-text-primary`}>
+              Import
+            </button>
+            <button onClick={handleExport} className={`${buttonClass} surface-secondary text-text-primary`}>
+              Export
+            </button>
+            <button onClick={handleNew} className={`${buttonClass} surface-secondary text-text-primary`}>
+              New
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+
+          {issues.length > 0 && (
+            <div role="alert" className="rounded-xl border border-red-300 bg-red-50 p-3 text-red-700 space-y-1">
+              {issues.map((issue, i) => (
+                <p key={i} className={i === 0 ? 'font-semibold' : 'font-mono text-xs'}>{issue}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { GameRenderer } from '@/lib/renderer';
+import { FIXED_TIMESTEP } from '@/lib/simulation';
+import { ReplayFormatError, ReplayPlayer, parseReplay, serializeReplay } from '@/lib/replay';
+import { StoredReplayInfo, StoredReplayKind, getStoredReplayInfo, loadStoredReplay } from '@/lib/replayStorage';
+import { downloadFile } from '@/lib/download';
+import { currentTheme } from '@/lib/themes';
+import { DIFFICULTIES, DIFFICULTY_PRESETS } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH, devicePixelRatio, fitCanvasToDisplay } from '@/lib/playfield';
+import { ReplayFile } from '@/types/recording';
+import { DifficultyId } from '@/types/difficulty';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+// Same clamp as the engine so a background tab doesn't fast-forward on return
+const MAX_FRAME_TIME = 0.25; // seconds
+
+function formatTime(tick: number): string {
+  const seconds = tick * FIXED_TIMESTEP;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export default function ReplayViewer() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const rendererRef = useRef<GameRenderer | null>(null);
+  const [stored] = useState(() => ({
+    latest: getStoredReplayInfo('latest'),
+    best: DIFFICULTIES.map(difficulty => ({ difficulty, info: getStoredReplayInfo(`best:${difficulty}`) }))
+      .filter((best): best is { difficulty: DifficultyId; info: StoredReplayInfo } => best.info !== null),
+  }));
+  // Drawn in the player's chosen theme, as of opening the viewer
+  const [theme] = useState(() => currentTheme());
+  const [replay, setReplay] = useState<ReplayFile | null>(null);
+  const [tick, setTick] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  const openReplay = (next: ReplayFile) => {
+    playerRef.current = new ReplayPlayer(next);
+    setReplay(next);
+    setTick(0);
+    setPlaying(false);
+    setError(null);
+  };
+
+  const handleLoadStored = (kind: StoredReplayKind) => {
+    const next = loadStoredReplay(kind);
+    if (next) {
+      openReplay(next);
+    } else {
+      setError('That run could not be loaded.');
+    }
+  };
+
+  const handleOpenFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      openReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setError(err instanceof ReplayFormatError ? `${file.name}: ${err.message}` : `${file.name} could not be read.`);
+    }
+  };
+
+  const handleDownload = () => {
+    if (replay) {
+      downloadFile(`bricks-and-balls-replay-${replay.recording.seed}.json`, serializeReplay(replay));
+    }
+  };
+
+  const seek = (target: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.seek(target);
+    setTick(player.tick);
+  };
+
+  const stepForward = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.step();
+    setTick(player.tick);
+  };
+
+  const togglePlaying = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (!playing && player.finished) {
+      player.seek(0);
+      setTick(0);
+    }
+    setPlaying(!playing);
+  };
+
+  // One renderer per replay; the canvas is only refitted when the window changes size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!replay || !canvas || !ctx) return;
+
+    const renderer = new GameRenderer(ctx, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT, theme);
+    const fit = () => {
+      renderer.setPixelRatio(devicePixelRatio());
+      // Resizing clears the canvas; a running playback loop redraws on its next frame
+      const player = playerRef.current;
+      if (fitCanvasToDisplay(canvas) && player) {
+        renderer.render(player.state, player.previous, 1);
+      }
+    };
+    fit();
+    rendererRef.current = renderer;
+    window.addEventListener('resize', fit);
+    return () => {
+      window.removeEventListener('resize', fit);
+      rendererRef.current = null;
+    };
+  }, [replay, theme]);
+
+  // Draw whenever the position changes while paused; the playback loop draws for itself
+  useEffect(() => {
+    const player = playerRef.current;
+    if (replay && !playing && player) {
+      rendererRef.current?.render(player.state, player.previous, 1);
+    }
+  }, [replay, tick, playing]);
+
+  // Playback at `speed` times real time, interpolating between ticks
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = 0;
+    let last = performance.now();
+    let accumulator = 0;
+    const loop = (now: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+
+      accumulator += Math.min((now - last) / 1000, MAX_FRAME_TIME) * speed;
+      last = now;
+      while (accumulator >= FIXED_TIMESTEP && !player.finished) {
+        player.step();
+        accumulator -= FIXED_TIMESTEP;
+      }
+
+      rendererRef.current?.render(player.state, player.previous, player.finished ? 1 : accumulator / FIXED_TIMESTEP);
+      setTick(player.tick);
+      if (player.finished) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed]);
+
+  // Space plays and pauses, arrow keys step a tick while paused
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!replay || e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.code === 'Space') {
+        e.preventDefault();
+        togglePlaying();
+      } else if (!playing && e.code === 'ArrowRight') {
+        stepForward();
+      } else if (!playing && e.code === 'ArrowLeft') {
+        seek(tick - 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const buttonClass = 'btn-game px-4 py-2 rounded-xl font-semibold text-sm shadow-soft disabled:opacity-40';
+  const length = replay?.recording.ticks ?? 0;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-gradient-surface p-4">
+      <div className="text-center mb-6 animate-fade-in-up">
+        <h1 className="text-4xl font-bold text-text-primary mb-2 tracking-tight">Replays</h1>
+        <p className="text-text-secondary font-medium">
+          {replay
+            ? `Score ${replay.score} • level ${replay.level} • ${new Date(replay.recordedAt).toLocaleString()}`
+            : 'Finished runs are kept in this browser'}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        <button
+          onClick={() => handleLoadStored('latest')}
+          disabled={!stored.latest}
+          className={`${buttonClass} surface-primary text-text-primary`}
+        >
+          Latest run{stored.latest ? ` (${stored.latest.score})` : ''}
+        </button>
+        {stored.best.map(({ difficulty, info }) => (
+          <button
+            key={difficulty}
+            onClick={() => handleLoadStored(`best:${difficulty}`)}
+            className={`${buttonClass} surface-primary text-text-primary`}
+          >
+            Best on {DIFFICULTY_PRESETS[difficulty].name} ({info.score})
+          </button>
+        ))}
+        <label className={`${buttonClass} surface-primary text-text-primary cursor-pointer`}>
+          Open file…
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleOpenFile} />
+        </label>
+        <button onClick={handleDownload} disabled={!replay} className={`${buttonClass} surface-primary text-text-primary`}>
+          Download
+        </button>
+        <Link href="/" className={`${buttonClass} surface-primary text-text-primary`}>
+          Back to Game
+        </Link>
+      </div>
+
+      {error && (
+        <div role="alert" className="rounded-xl border border-red-300 bg-red-50 p-3 mb-4 text-red-700 max-w-[800px] w-full">
+          {error}
+        </div>
+      )}
+
+      {replay ? (
+        <div className="w-full max-w-[800px]">
+          <div className="game-container mb-4">
+            <canvas
+              ref={canvasRef}
+              className="game-canvas w-full"
+              style={{ aspectRatio: `${PLAYFIELD_WIDTH} / ${PLAYFIELD_HEIGHT}` }}
+            />
+          </div>
+
+          <input
+            type="range"
+            min={0}
+            max={length}
+            step={1}
+            value={tick}
+            onChange={e => seek(Number(e.target.value))}
+            className="w-full mb-3"
+            aria-label="Timeline"
+          />
+
+          <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+            <button onClick={() => seek(0)} className={`${buttonClass} surface-primary text-text-primary`} aria-label="Back to start">
+              ⏮
+            </button>
+            <button
+              onClick={() => seek(tick - 1)}
+              disabled={playing || tick === 0}
+              className={`${buttonClass} surface-primary text-text-primary`}
+              aria-label="Previous tick"
+            >
+              ◀︎
+            </button>
+            <button onClick={togglePlaying} className={`${buttonClass} bg-gradient-primary text-white w-24`}>
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <button
+              onClick={stepForward}
+              disabled={playing || tick >= length}
+              className={`${buttonClass} surface-primary text-text-primary`}
+              aria-label="Next tick"
+            >
+              ▶︎
+            </button>
+            <select
+              value={speed}
+              onChange={e => setSpeed(Number(e.target.value))}
+              className="rounded-xl border border-game-border bg-transparent px-3 py-2 text-text-primary"
+              aria-label="Playback speed"
+            >
+              {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+            </select>
+            <span className="font-mono text-text-secondary ml-2">
+              {formatTime(tick)} / {formatTime(length)}
+            </span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-text-secondary">Choose a run to watch.</p>
+      )}
+    </div>
+  );
+}
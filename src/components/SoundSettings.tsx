@@ -0,0 +1,46 @@
+'use client';
+
+import { AudioSettings } from '@/types/audio';
+
+interface SoundSettingsProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+type VolumeKey = 'masterVolume' | 'sfxVolume' | 'musicVolume';
+
+const VOLUMES: Array<{ key: VolumeKey; label: string }> = [
+  { key: 'masterVolume', label: 'Master' },
+  { key: 'sfxVolume', label: 'Effects' },
+  { key: 'musicVolume', label: 'Music' },
+];
+
+export default function SoundSettings({ settings, onChange }: SoundSettingsProps) {
+  return (
+    <div className="space-y-3 text-sm text-left">
+      <label className="inline-flex items-center gap-2 font-semibold text-text-primary cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.muted}
+          onChange={e => onChange({ ...settings, muted: e.target.checked })}
+        />
+        Mute all sound
+      </label>
+      {VOLUMES.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-3">
+          <span className="w-16 font-semibold text-text-primary">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(settings[key] * 100)}
+            onChange={e => onChange({ ...settings, [key]: Number(e.target.value) / 100 })}
+            disabled={settings.muted}
+            className="flex-1 disabled:opacity-40"
+          />
+          <span className="w-10 text-right font-mono text-xs text-text-secondary">{Math.round(settings[key] * 100)}%</span>
+        </label>
+      ))}
+    </div>
+  );
+}
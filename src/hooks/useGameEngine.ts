@@ -0,0 +1,21 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { GameEngine } from '@/lib/gameEngine';
+import { EngineSnapshot } from '@/types/engine';
+
+/**
+ * The engine's latest snapshot, re-rendering the component whenever the
+ * engine replaces it. Null until there is an engine, and during server
+ * rendering.
+ */
+export function useGameEngine(engine: GameEngine | null): EngineSnapshot | null {
+  const subscribe = useCallback(
+    (onChange: () => void) => (engine ? engine.on('stateChanged', onChange) : () => {}),
+    [engine],
+  );
+  const getSnapshot = useCallback(() => engine?.getSnapshot() ?? null, [engine]);
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+function getServerSnapshot(): null {
+  return null;
+}
@@ -0,0 +1,17 @@
+import firstLight from './01-first-light.json';
+import pyramid from './02-pyramid.json';
+import checkerboard from './03-checkerboard.json';
+import twinTowers from './04-twin-towers.json';
+import rainbowWall from './05-rainbow-wall.json';
+
+/**
+ * Levels played in order from level 1. Sources are validated when first
+ * used; once the pack runs out the game falls back to procedural layouts.
+ */
+export const BUNDLED_LEVELS: Array<{ file: string; source: unknown }> = [
+  { file: '01-first-light.json', source: firstLight },
+  { file: '02-pyramid.json', source: pyramid },
+  { file: '03-checkerboard.json', source: checkerboard },
+  { file: '04-twin-towers.json', source: twinTowers },
+  { file: '05-rainbow-wall.json', source: rainbowWall },
+];
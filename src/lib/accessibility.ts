@@ -0,0 +1,141 @@
+import { BRICK_COLORS } from '@/lib/simulation';
+import { AccessibilitySettings, MotionPreference } from '@/types/accessibility';
+import { GameSnapshot } from '@/types/engine';
+import { isRunActive } from '@/lib/gamePhase';
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  brickPalette: 'level',
+  brickGlyphs: false,
+  motion: 'system',
+  gameSpeed: 1,
+};
+
+// Slowest first; offered as a choice rather than a free slider so replays stay comparable
+export const GAME_SPEEDS = [0.5, 0.75, 1];
+
+// Okabe–Ito: eight colors that stay distinguishable with the common forms of color blindness
+export const COLORBLIND_PALETTE = [
+  '#E69F00', '#56B4E9', '#009E73', '#F0E442',
+  '#0072B2', '#D55E00', '#CC79A7', '#999999',
+];
+
+// Score every this many points is read out to screen readers
+export const SCORE_MILESTONE = 1000;
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const STORAGE_KEY = 'bricks-and-balls:accessibility';
+const SETTINGS_VERSION = 1;
+
+/**
+ * Which of the eight palette slots (and brick glyphs) a level color gets.
+ * The generated levels' row colors keep their order; any other color goes
+ * by hue, so similar colors stay together.
+ */
+export function brickColorIndex(color: string): number {
+  const known = BRICK_COLORS.indexOf(color.toLowerCase());
+  if (known !== -1) return known;
+  return Math.floor(hue(color) / 45) % COLORBLIND_PALETTE.length;
+}
+
+export function resolveReducedMotion(motion: MotionPreference, systemPrefersReduced: boolean): boolean {
+  return motion === 'reduce' || (motion === 'system' && systemPrefersReduced);
+}
+
+/**
+ * What a screen reader should hear about the change from `previous` to
+ * `next`, or null when nothing worth announcing happened.
+ */
+export function describeStateChange(previous: GameSnapshot | null, next: GameSnapshot): string | null {
+  if (!previous) return null;
+  const messages: string[] = [];
+
+  const milestone = Math.floor(next.score / SCORE_MILESTONE) * SCORE_MILESTONE;
+  if (isRunActive(next.phase) && milestone > 0 && milestone > previous.score) {
+    messages.push(`${milestone} points.`);
+  }
+
+  if (next.phase !== previous.phase) {
+    const message = describePhaseChange(previous, next);
+    if (message) {
+      messages.push(message);
+    }
+  }
+
+  return messages.length > 0 ? messages.join(' ') : null;
+}
+
+// Stored settings, or the defaults if there are none or they can't be read
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseSettings(JSON.parse(raw)) ?? DEFAULT_ACCESSIBILITY_SETTINGS : DEFAULT_ACCESSIBILITY_SETTINGS;
+  } catch {
+    return DEFAULT_ACCESSIBILITY_SETTINGS;
+  }
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+  } catch {
+    // The settings still apply for this visit
+  }
+}
+
+function parseSettings(value: unknown): AccessibilitySettings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const stored = value as { version?: unknown; settings?: Record<string, unknown> };
+  if (stored.version !== SETTINGS_VERSION || typeof stored.settings !== 'object' || stored.settings === null) return null;
+
+  const { brickPalette, brickGlyphs, motion, gameSpeed } = stored.settings;
+  if ((brickPalette !== 'level' && brickPalette !== 'colorblind') ||
+      typeof brickGlyphs !== 'boolean' ||
+      (motion !== 'system' && motion !== 'reduce' && motion !== 'full') ||
+      !GAME_SPEEDS.includes(gameSpeed as number)) {
+    return null;
+  }
+  return { brickPalette, brickGlyphs, motion, gameSpeed: gameSpeed as number };
+}
+
+function describePhaseChange(previous: GameSnapshot, next: GameSnapshot): string | null {
+  if (previous.phase === 'paused') return 'Resumed.';
+
+  switch (next.phase) {
+    case 'serving':
+      if (previous.phase === 'title') {
+        return `Game started. Level ${next.level}, ${plural(next.lives, 'life', 'lives')}. Launch the ball when ready.`;
+      }
+      return previous.phase === 'levelCleared' ? `Now on level ${next.level}. Launch the ball when ready.` : null;
+    case 'paused':
+      return 'Paused.';
+    case 'lifeLost':
+      return `Life lost. ${plural(next.lives, 'life', 'lives')} left.`;
+    case 'levelCleared':
+      return next.levelSummary
+        ? `Level ${next.level} cleared. ${next.levelSummary.timeBonus + next.levelSummary.noDeathBonus} bonus points. Launch to go on.`
+        : `Level ${next.level} cleared.`;
+    case 'gameOver':
+      return `Game over. Final score ${next.score}.`;
+    default:
+      return null;
+  }
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+// Hue in degrees of a #rrggbb color; 0 for anything else
+function hue(color: string): number {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return 0;
+
+  const [r, g, b] = match.slice(1).map(part => parseInt(part, 16) / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+
+  const sector = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return sector * 60;
+}
@@ -0,0 +1,335 @@
+import { AudioSettings, SoundEffect } from '@/types/audio';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  masterVolume: 0.8,
+  sfxVolume: 0.8,
+  musicVolume: 0.4,
+  muted: false,
+};
+
+const STORAGE_KEY = 'bricks-and-balls:audio';
+const SETTINGS_VERSION = 1;
+
+// Time constant for volume changes, short enough to feel instant without clicking
+const VOLUME_SMOOTHING = 0.015; // seconds
+// Quietest level exponential envelopes ramp from and to (they can't reach zero)
+const SILENCE = 0.0001;
+
+// Music: eighth notes at 112 BPM over a four-chord loop in A minor
+const MUSIC_STEP = 60 / 112 / 2; // seconds
+const MUSIC_LOOKAHEAD = 0.2; // seconds of music scheduled ahead of the clock
+const MUSIC_SCHEDULE_INTERVAL = 50; // ms
+const STEPS_PER_CHORD = 8;
+const CHORDS = [
+  { root: 45, tones: [69, 72, 76] }, // Am
+  { root: 41, tones: [65, 69, 72] }, // F
+  { root: 48, tones: [67, 72, 76] }, // C
+  { root: 43, tones: [67, 71, 74] }, // G
+];
+const ARPEGGIO = [0, 1, 2, 1, 0, 1, 2, 1];
+const BASS_STEPS = [0, 3, 4, 6];
+
+// Brick breaks climb a major pentatonic scale from E4
+const BRICK_BASE_NOTE = 64;
+const PENTATONIC = [0, 2, 4, 7, 9];
+const MAX_BRICK_DEGREE = 12;
+
+/**
+ * Synthesized sound effects and music on the Web Audio API. Everything is
+ * generated with oscillators and a noise buffer, so there are no files to
+ * load. Browsers only let audio start from a user gesture: nothing plays
+ * until `unlock` has been called from one.
+ *
+ * Volumes form a small mixer: effects and music each have a gain, both
+ * feeding a master gain that also handles mute.
+ */
+export class AudioEngine {
+  private settings: AudioSettings;
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfx: GainNode | null = null;
+  private music: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+  // Whether the game wants sound right now; false while paused or hidden
+  private active = true;
+  private musicWanted = false;
+  private musicTimer?: ReturnType<typeof setInterval>;
+  private musicStep = 0;
+  private nextMusicTime = 0;
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings;
+  }
+
+  public get currentSettings(): AudioSettings {
+    return this.settings;
+  }
+
+  public setSettings(settings: AudioSettings) {
+    this.settings = settings;
+    this.applyVolumes();
+  }
+
+  /**
+   * Create or wake the audio context. Must be called from a user gesture
+   * (click, tap, key press) the first time; later calls are cheap.
+   */
+  public unlock() {
+    if (!this.context) {
+      const AudioContextClass = getAudioContextClass();
+      if (!AudioContextClass) return;
+
+      const context = new AudioContextClass();
+      this.master = context.createGain();
+      this.sfx = context.createGain();
+      this.music = context.createGain();
+      this.sfx.connect(this.master);
+      this.music.connect(this.master);
+      this.master.connect(context.destination);
+      this.noise = createNoiseBuffer(context);
+      this.context = context;
+      this.applyVolumes(true);
+      this.startMusicScheduler();
+    }
+
+    if (this.active && this.context.state !== 'running') {
+      this.context.resume().catch(() => {});
+    }
+  }
+
+  // Freeze all sound, music included, e.g. while the game is paused
+  public suspend() {
+    this.active = false;
+    if (this.context?.state === 'running') {
+      this.context.suspend().catch(() => {});
+    }
+  }
+
+  public resume() {
+    this.active = true;
+    if (this.context && this.context.state !== 'running') {
+      this.context.resume().catch(() => {});
+    }
+  }
+
+  // Loop the music from the top
+  public startMusic() {
+    this.stopMusic();
+    this.musicWanted = true;
+    this.startMusicScheduler();
+  }
+
+  public stopMusic() {
+    this.musicWanted = false;
+    if (this.musicTimer !== undefined) {
+      clearInterval(this.musicTimer);
+      this.musicTimer = undefined;
+    }
+  }
+
+  public play(effect: SoundEffect) {
+    const context = this.context;
+    if (!context || context.state !== 'running') return;
+    const t = context.currentTime;
+
+    switch (effect.type) {
+      case 'paddleHit':
+        this.tone('square', 260, t, 0.09, 0.18, 520);
+        break;
+      case 'wallHit':
+        this.tone('triangle', 190, t, 0.06, 0.22);
+        break;
+      case 'brickHit':
+        this.tone('square', 150, t, 0.08, 0.14, 100);
+        break;
+      case 'brickBreak': {
+        const degree = Math.min(MAX_BRICK_DEGREE, effect.combo + Math.max(0, 8 - effect.row));
+        const note = BRICK_BASE_NOTE + PENTATONIC[degree % PENTATONIC.length] + 12 * Math.floor(degree / PENTATONIC.length);
+        const frequency = noteFrequency(note);
+        this.tone('square', frequency, t, 0.12, 0.14);
+        this.tone('triangle', frequency * 2, t, 0.08, 0.08);
+        break;
+      }
+      case 'explosion':
+        this.noiseBurst(t, 0.45, 0.5, 1800, 80);
+        this.tone('sine', 110, t, 0.35, 0.4, 35);
+        break;
+      case 'powerUp':
+        [72, 76, 79, 84].forEach((note, i) => this.tone('triangle', noteFrequency(note), t + i * 0.05, 0.1, 0.18));
+        break;
+      case 'lifeLost':
+        this.tone('sawtooth', 440, t, 0.6, 0.16, 90);
+        this.tone('square', 220, t + 0.05, 0.55, 0.08, 55);
+        break;
+      case 'levelClear':
+        [60, 64, 67, 72, 76].forEach((note, i) => this.tone('square', noteFrequency(note), t + i * 0.09, i === 4 ? 0.6 : 0.12, 0.14));
+        this.tone('triangle', noteFrequency(48), t + 0.36, 0.7, 0.2);
+        break;
+      case 'gameOver':
+        [67, 63, 60].forEach((note, i) => this.tone('triangle', noteFrequency(note), t + i * 0.3, i === 2 ? 0.9 : 0.28, 0.25));
+        this.tone('sawtooth', noteFrequency(36), t + 0.6, 0.9, 0.1);
+        break;
+    }
+  }
+
+  public destroy() {
+    this.stopMusic();
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+
+  private applyVolumes(immediate = false) {
+    const context = this.context;
+    if (!context || !this.master || !this.sfx || !this.music) return;
+
+    const { masterVolume, sfxVolume, musicVolume, muted } = this.settings;
+    const levels: Array<[GainNode, number]> = [
+      [this.master, muted ? 0 : masterVolume],
+      [this.sfx, sfxVolume],
+      [this.music, musicVolume],
+    ];
+    for (const [node, level] of levels) {
+      if (immediate) {
+        node.gain.value = level;
+      } else {
+        node.gain.setTargetAtTime(level, context.currentTime, VOLUME_SMOOTHING);
+      }
+    }
+  }
+
+  // Scheduling runs ahead of the audio clock, which stands still while the context is suspended
+  private startMusicScheduler() {
+    if (!this.context || !this.musicWanted || this.musicTimer !== undefined) return;
+
+    this.musicStep = 0;
+    this.nextMusicTime = this.context.currentTime + 0.05;
+    this.musicTimer = setInterval(this.scheduleMusic, MUSIC_SCHEDULE_INTERVAL);
+    this.scheduleMusic();
+  }
+
+  private scheduleMusic = () => {
+    const context = this.context;
+    if (!context) return;
+
+    // Don't try to catch up on time lost to a throttled timer
+    this.nextMusicTime = Math.max(this.nextMusicTime, context.currentTime);
+    while (this.nextMusicTime < context.currentTime + MUSIC_LOOKAHEAD) {
+      this.playMusicStep(this.musicStep, this.nextMusicTime);
+      this.nextMusicTime += MUSIC_STEP;
+      this.musicStep = (this.musicStep + 1) % (CHORDS.length * STEPS_PER_CHORD);
+    }
+  };
+
+  private playMusicStep(step: number, time: number) {
+    const chord = CHORDS[Math.floor(step / STEPS_PER_CHORD)];
+    const beat = step % STEPS_PER_CHORD;
+
+    if (BASS_STEPS.includes(beat)) {
+      this.tone('triangle', noteFrequency(chord.root), time, MUSIC_STEP * 1.6, 0.35, undefined, this.music);
+    }
+    this.tone('square', noteFrequency(chord.tones[ARPEGGIO[beat]]), time, MUSIC_STEP * 0.8, 0.06, undefined, this.music);
+  }
+
+  // One oscillator note with a fast attack and exponential decay, optionally gliding to `endFrequency`
+  private tone(
+    type: OscillatorType,
+    frequency: number,
+    start: number,
+    duration: number,
+    volume: number,
+    endFrequency?: number,
+    destination = this.sfx,
+  ) {
+    const context = this.context;
+    if (!context || !destination) return;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(frequency, start);
+    if (endFrequency !== undefined) {
+      oscillator.frequency.exponentialRampToValueAtTime(endFrequency, start + duration);
+    }
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(SILENCE, start);
+    envelope.gain.exponentialRampToValueAtTime(volume, start + 0.005);
+    envelope.gain.exponentialRampToValueAtTime(SILENCE, start + duration);
+
+    oscillator.connect(envelope).connect(destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.02);
+  }
+
+  // White noise through a closing low-pass filter: a thud that darkens as it fades
+  private noiseBurst(start: number, duration: number, volume: number, fromCutoff: number, toCutoff: number) {
+    const context = this.context;
+    if (!context || !this.noise || !this.sfx) return;
+
+    const source = context.createBufferSource();
+    source.buffer = this.noise;
+
+    const filter = context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(fromCutoff, start);
+    filter.frequency.exponentialRampToValueAtTime(toCutoff, start + duration);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(volume, start);
+    envelope.gain.exponentialRampToValueAtTime(SILENCE, start + duration);
+
+    source.connect(filter).connect(envelope).connect(this.sfx);
+    source.start(start);
+    source.stop(start + duration);
+  }
+}
+
+// Stored settings, or the defaults if there are none or they can't be read
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseAudioSettings(JSON.parse(raw)) ?? DEFAULT_AUDIO_SETTINGS : DEFAULT_AUDIO_SETTINGS;
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+  } catch {
+    // The settings still apply for this visit
+  }
+}
+
+function parseAudioSettings(value: unknown): AudioSettings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const stored = value as { version?: unknown; settings?: Record<string, unknown> };
+  if (stored.version !== SETTINGS_VERSION || typeof stored.settings !== 'object' || stored.settings === null) return null;
+
+  const { masterVolume, sfxVolume, musicVolume, muted } = stored.settings;
+  if (!isVolume(masterVolume) || !isVolume(sfxVolume) || !isVolume(musicVolume) || typeof muted !== 'boolean') return null;
+  return { masterVolume, sfxVolume, musicVolume, muted };
+}
+
+function isVolume(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+// MIDI note number to Hz; 69 is A4
+function noteFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+function createNoiseBuffer(context: AudioContext): AudioBuffer {
+  const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+}
+
+function getAudioContextClass(): typeof AudioContext | null {
+  if (typeof window === 'undefined') return null;
+  return window.AudioContext ?? (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext ?? null;
+}
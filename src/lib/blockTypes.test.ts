@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Controls, GameState } from '@/types/game';
+import { LEVEL_FORMAT_VERSION, LevelBrickSource } from '@/types/level';
+import { BLOCK_TYPE_RULES, REGENERATION_DELAY } from '@/lib/blockTypes';
+import { createGameConfig } from '@/lib/difficulty';
+import { validateLevel } from '@/lib/levels';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { SimulationEvent, cloneGameState, createGameState, startGame, stepSimulation } from '@/lib/simulation';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+const IDLE: Controls = { moveLeft: false, moveRight: false };
+
+// A launched ball on a level of just `bricks`, sent straight up from under `x`
+function shootAt(bricks: LevelBrickSource[], x: number): GameState {
+  const level = validateLevel({ version: LEVEL_FORMAT_VERSION, name: 'Test', bricks });
+  const served = startGame(createGameState(config, level, 1));
+  const state = cloneGameState(stepSimulation(served, { ...IDLE, launch: true }, config).state);
+  state.balls[0].position = { x, y: 300 };
+  state.balls[0].velocity = { x: 0, y: -400 };
+  return state;
+}
+
+// Step with the paddle under the ball until `done` sees the events of a tick
+function stepUntil(state: GameState, done: (events: SimulationEvent[], state: GameState) => boolean) {
+  const events: SimulationEvent[] = [];
+  for (let tick = 0; tick < 120 * 30; tick++) {
+    const result = stepSimulation(state, { ...IDLE, pointerX: state.balls[0]?.position.x }, config);
+    state = result.state;
+    events.push(...result.events);
+    if (done(result.events, state)) break;
+  }
+  return { state, events };
+}
+
+const hasEvent = (type: SimulationEvent['type']) => (events: SimulationEvent[]) => events.some(event => event.type === type);
+
+describe('brick types', () => {
+  it('chips a tough brick for a tenth of its value until the last hit', () => {
+    const { state, events } = stepUntil(shootAt([{ x: 300, y: 100, type: 'tough', points: 50 }], 340), hasEvent('blockHit'));
+    expect(state.blocks[0]).toMatchObject({ destroyed: false, hitPoints: 2, maxHitPoints: 3 });
+    expect(state.score).toBe(5);
+    expect(events.some(event => event.type === 'blockDestroyed')).toBe(false);
+  });
+
+  it('bounces off indestructible bricks, which a level does not need broken', () => {
+    const start = shootAt([{ x: 300, y: 100, type: 'indestructible' }, { x: 600, y: 100 }], 340);
+    expect(start.remainingBlocks).toBe(1);
+
+    const { state } = stepUntil(start, hasEvent('blockHit'));
+    expect(state.blocks[0].destroyed).toBe(false);
+    expect(state.balls[0].velocity.y).toBeGreaterThan(0);
+    expect(state.score).toBe(0);
+  });
+
+  it('takes neighbouring bricks with an explosive one, and nothing further away', () => {
+    const { state, events } = stepUntil(
+      shootAt([{ x: 300, y: 100, type: 'explosive' }, { x: 385, y: 100 }, { x: 600, y: 100 }], 340),
+      hasEvent('blockDestroyed')
+    );
+    const destroyed = events.flatMap(event => (event.type === 'blockDestroyed' ? [[event.index, event.cause]] : []));
+    expect(destroyed).toEqual([[0, 'ball'], [1, 'explosion']]);
+    expect(events.some(event => event.type === 'explosion')).toBe(true);
+    expect(state.remainingBlocks).toBe(1);
+  });
+
+  it('rebuilds a regenerating brick after a delay', () => {
+    const broken = stepUntil(shootAt([{ x: 300, y: 100, type: 'regenerating' }, { x: 600, y: 100 }], 340), hasEvent('blockDestroyed'));
+    expect(broken.state.remainingBlocks).toBe(1);
+
+    const back = stepUntil(broken.state, hasEvent('blockRegenerated'));
+    expect(back.state.blocks[0]).toMatchObject({ destroyed: false, timesDestroyed: 1 });
+    expect(back.state.remainingBlocks).toBe(2);
+    expect(back.state.time - broken.state.time).toBeGreaterThanOrEqual(REGENERATION_DELAY - 0.01);
+  });
+
+  it('halves what a regenerating brick is worth every time it breaks again', () => {
+    const { score } = BLOCK_TYPE_RULES.regenerating;
+    const brick = { ...shootAt([{ x: 300, y: 100, type: 'regenerating', points: 40 }], 340).blocks[0] };
+    expect([1, 2, 3].map(timesDestroyed => score({ ...brick, timesDestroyed }, true))).toEqual([40, 20, 10]);
+  });
+});
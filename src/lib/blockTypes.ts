@@ -0,0 +1,65 @@
+import { Block, BlockType } from '@/types/game';
+
+export interface BlockTypeRules {
+  label: string;
+  // Hits a fresh brick takes before it breaks, unless the level overrides it
+  defaultHits: number;
+  // Indestructible bricks reflect the ball but never break
+  breakable: boolean;
+  // Whether the brick has to be broken to clear the level
+  required: boolean;
+  // Points for one hit; `destroyed` is true when that hit broke the brick
+  score(block: Block, destroyed: boolean): number;
+}
+
+// Upper limit on the hits a level can give a single brick
+export const MAX_BLOCK_HITS = 20;
+// Blast reach around an explosive brick; enough to catch its grid neighbours
+export const EXPLOSION_RANGE = 12;
+// Seconds before a broken regenerating brick comes back
+export const REGENERATION_DELAY = 8;
+// Retry interval when the ball is in the way of a regenerating brick
+export const REGENERATION_RETRY = 0.5;
+
+export const BLOCK_TYPE_RULES: Record<BlockType, BlockTypeRules> = {
+  standard: {
+    label: 'Standard',
+    defaultHits: 1,
+    breakable: true,
+    required: true,
+    score: (block, destroyed) => (destroyed ? block.points : 0),
+  },
+  tough: {
+    label: 'Tough',
+    defaultHits: 3,
+    breakable: true,
+    required: true,
+    // A tenth of the value for every chip, the full value for the final hit
+    score: (block, destroyed) => (destroyed ? block.points : Math.round(block.points / 10)),
+  },
+  indestructible: {
+    label: 'Indestructible',
+    defaultHits: 1,
+    breakable: false,
+    required: false,
+    score: () => 0,
+  },
+  explosive: {
+    label: 'Explosive',
+    defaultHits: 1,
+    breakable: true,
+    required: true,
+    // Bricks caught in the blast score by their own rules
+    score: (block, destroyed) => (destroyed ? block.points : 0),
+  },
+  regenerating: {
+    label: 'Regenerating',
+    defaultHits: 1,
+    breakable: true,
+    required: true,
+    // Halved every time it is broken again so it can't be farmed
+    score: (block, destroyed) => (destroyed ? Math.floor(block.points / 2 ** (block.timesDestroyed - 1)) : 0),
+  },
+};
+
+export const BLOCK_TYPES = Object.keys(BLOCK_TYPE_RULES) as BlockType[];
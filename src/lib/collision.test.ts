@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Rect, circleIntersectsRect, reflect, sweepCircleRect } from '@/lib/collision';
+
+const brick: Rect = { position: { x: 100, y: 100 }, width: 80, height: 20 };
+
+describe('sweepCircleRect', () => {
+  it('hits the top face of a rect the circle falls onto', () => {
+    const hit = sweepCircleRect({ x: 140, y: 50 }, { x: 0, y: 100 }, 10, brick);
+    expect(hit).not.toBeNull();
+    expect(hit!.time).toBeCloseTo(0.4);
+    expect(hit!.normal).toEqual({ x: 0, y: -1 });
+  });
+
+  it('hits the left face of a rect the circle moves into sideways', () => {
+    const hit = sweepCircleRect({ x: 50, y: 110 }, { x: 100, y: 0 }, 10, brick);
+    expect(hit!.time).toBeCloseTo(0.4);
+    expect(hit!.normal).toEqual({ x: -1, y: 0 });
+  });
+
+  it('misses a rect the path passes beside', () => {
+    expect(sweepCircleRect({ x: 50, y: 50 }, { x: 0, y: 100 }, 10, brick)).toBeNull();
+  });
+
+  it('misses a rect the sweep stops short of', () => {
+    expect(sweepCircleRect({ x: 140, y: 50 }, { x: 0, y: 20 }, 10, brick)).toBeNull();
+  });
+
+  it('hits a corner along the diagonal, with the normal pointing out of the corner', () => {
+    const hit = sweepCircleRect({ x: 80, y: 80 }, { x: 20, y: 20 }, 10, brick);
+    expect(hit).not.toBeNull();
+    expect(hit!.normal.x).toBeCloseTo(-Math.SQRT1_2);
+    expect(hit!.normal.y).toBeCloseTo(-Math.SQRT1_2);
+  });
+
+  it('misses a corner the circle only clips the expanded box of', () => {
+    expect(sweepCircleRect({ x: 85, y: 50 }, { x: 0, y: 45 }, 10, brick)).toBeNull();
+  });
+
+  it('reports an overlapping circle only while it moves further in', () => {
+    expect(sweepCircleRect({ x: 140, y: 95 }, { x: 0, y: 5 }, 10, brick)).toEqual({ time: 0, normal: { x: 0, y: -1 } });
+    expect(sweepCircleRect({ x: 140, y: 95 }, { x: 0, y: -5 }, 10, brick)).toBeNull();
+  });
+});
+
+describe('circleIntersectsRect', () => {
+  it('counts touching as intersecting', () => {
+    expect(circleIntersectsRect({ x: 140, y: 90 }, 10, brick)).toBe(true);
+    expect(circleIntersectsRect({ x: 140, y: 89 }, 10, brick)).toBe(false);
+  });
+
+  it('uses the distance to the nearest corner', () => {
+    expect(circleIntersectsRect({ x: 94, y: 94 }, 10, brick)).toBe(true);
+    expect(circleIntersectsRect({ x: 92, y: 92 }, 10, brick)).toBe(false);
+  });
+});
+
+describe('reflect', () => {
+  it('flips the component along the normal and keeps the rest', () => {
+    expect(reflect({ x: 3, y: 4 }, { x: 0, y: -1 })).toEqual({ x: 3, y: -4 });
+    expect(reflect({ x: 3, y: 4 }, { x: 1, y: 0 })).toEqual({ x: -3, y: 4 });
+  });
+});
@@ -0,0 +1,168 @@
+import { Position } from '@/types/game';
+
+export interface Rect {
+  position: Position;
+  width: number;
+  height: number;
+}
+
+export interface SweepHit {
+  // Fraction of the swept movement at which contact happens, in [0, 1]
+  time: number;
+  // Unit surface normal at the contact point, pointing away from the rect
+  normal: Position;
+}
+
+/**
+ * Sweep a circle from `start` along `delta` against an axis-aligned rect and
+ * return the earliest time of impact, or null if the path misses it.
+ *
+ * The rect is grown by the radius into a rounded rectangle (its Minkowski sum
+ * with the circle) and a ray is cast against that: a slab test covers the
+ * faces, and a ray-vs-circle test at the nearest corner covers the rounded
+ * corners. A circle that already overlaps the rect only reports a hit when it
+ * is moving further in, so a resolved contact can't be hit again.
+ */
+export function sweepCircleRect(start: Position, delta: Position, radius: number, rect: Rect): SweepHit | null {
+  const left = rect.position.x;
+  const right = rect.position.x + rect.width;
+  const top = rect.position.y;
+  const bottom = rect.position.y + rect.height;
+
+  const overlapNormal = getOverlapNormal(start, radius, rect);
+  if (overlapNormal) {
+    return dot(delta, overlapNormal) < 0 ? { time: 0, normal: overlapNormal } : null;
+  }
+
+  // Slab test against the rect expanded by the radius on every side
+  let tEnter = -Infinity;
+  let tExit = Infinity;
+  let normal: Position = { x: 0, y: 0 };
+
+  const axes: Array<{ origin: number; d: number; min: number; max: number; axis: 'x' | 'y' }> = [
+    { origin: start.x, d: delta.x, min: left - radius, max: right + radius, axis: 'x' },
+    { origin: start.y, d: delta.y, min: top - radius, max: bottom + radius, axis: 'y' },
+  ];
+
+  for (const { origin, d, min, max, axis } of axes) {
+    if (d === 0) {
+      if (origin < min || origin > max) return null;
+      continue;
+    }
+
+    const t1 = (min - origin) / d;
+    const t2 = (max - origin) / d;
+    const near = Math.min(t1, t2);
+    const far = Math.max(t1, t2);
+
+    if (near > tEnter) {
+      tEnter = near;
+      normal = axis === 'x' ? { x: d > 0 ? -1 : 1, y: 0 } : { x: 0, y: d > 0 ? -1 : 1 };
+    }
+    tExit = Math.min(tExit, far);
+  }
+
+  if (tEnter > tExit || tEnter > 1 || tExit < 0) return null;
+
+  // The start point can sit inside the expanded box's corner squares without
+  // touching the rounded shape, so clamp and let the corner test decide
+  const time = Math.max(tEnter, 0);
+  const hitX = start.x + delta.x * time;
+  const hitY = start.y + delta.y * time;
+
+  const inCornerX = hitX < left || hitX > right;
+  const inCornerY = hitY < top || hitY > bottom;
+  if (!(inCornerX && inCornerY)) {
+    // Starting on a face and moving away from it is not a hit
+    return tEnter < 0 ? null : { time, normal };
+  }
+
+  const corner = {
+    x: hitX < left ? left : right,
+    y: hitY < top ? top : bottom,
+  };
+  return sweepCirclePoint(start, delta, radius, corner);
+}
+
+/**
+ * Earliest time at which a circle moving from `start` along `delta` touches
+ * `point`, or null if it doesn't within the sweep.
+ */
+export function sweepCirclePoint(start: Position, delta: Position, radius: number, point: Position): SweepHit | null {
+  const offsetX = start.x - point.x;
+  const offsetY = start.y - point.y;
+
+  const a = dot(delta, delta);
+  if (a === 0) return null;
+
+  const b = 2 * (offsetX * delta.x + offsetY * delta.y);
+  const c = offsetX * offsetX + offsetY * offsetY - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (time < 0 || time > 1) return null;
+
+  const contactX = start.x + delta.x * time - point.x;
+  const contactY = start.y + delta.y * time - point.y;
+  const length = Math.sqrt(contactX * contactX + contactY * contactY) || 1;
+
+  return { time, normal: { x: contactX / length, y: contactY / length } };
+}
+
+export function circleIntersectsRect(center: Position, radius: number, rect: Rect): boolean {
+  const closestX = Math.max(rect.position.x, Math.min(center.x, rect.position.x + rect.width));
+  const closestY = Math.max(rect.position.y, Math.min(center.y, rect.position.y + rect.height));
+  const dx = center.x - closestX;
+  const dy = center.y - closestY;
+  return dx * dx + dy * dy <= radius * radius;
+}
+
+/**
+ * Reflect a velocity about a unit surface normal.
+ */
+export function reflect(velocity: Position, normal: Position): Position {
+  const d = 2 * dot(velocity, normal);
+  return {
+    x: velocity.x - d * normal.x,
+    y: velocity.y - d * normal.y,
+  };
+}
+
+function dot(a: Position, b: Position): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+// Normal to push an already-overlapping circle out of the rect, or null if
+// the circle doesn't overlap it
+function getOverlapNormal(center: Position, radius: number, rect: Rect): Position | null {
+  if (!circleIntersectsRect(center, radius, rect)) return null;
+
+  const left = rect.position.x;
+  const right = rect.position.x + rect.width;
+  const top = rect.position.y;
+  const bottom = rect.position.y + rect.height;
+
+  const closestX = Math.max(left, Math.min(center.x, right));
+  const closestY = Math.max(top, Math.min(center.y, bottom));
+  const dx = center.x - closestX;
+  const dy = center.y - closestY;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  // Touching exactly is not an overlap worth resolving
+  if (distance >= radius) return null;
+
+  if (distance > 0) {
+    return { x: dx / distance, y: dy / distance };
+  }
+
+  // Center is inside the rect: push out through the nearest face
+  const penetrations = [
+    { depth: center.x - left, normal: { x: -1, y: 0 } },
+    { depth: right - center.x, normal: { x: 1, y: 0 } },
+    { depth: center.y - top, normal: { x: 0, y: -1 } },
+    { depth: bottom - center.y, normal: { x: 0, y: 1 } },
+  ];
+  penetrations.sort((a, b) => a.depth - b.depth);
+  return penetrations[0].normal;
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DIFFICULTIES,
+  DIFFICULTY_PRESETS,
+  configTuning,
+  createGameConfig,
+  difficultyTuning,
+  isDifficulty,
+  loadDifficulty,
+  saveDifficulty,
+} from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { createGameState, loadLevel } from '@/lib/simulation';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('window', {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  },
+});
+
+const configFor = (id: keyof typeof DIFFICULTY_PRESETS) => createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT, difficultyTuning(id));
+
+describe('difficulty presets', () => {
+  it('get harder in the order they are offered', () => {
+    const presets = DIFFICULTIES.map(id => DIFFICULTY_PRESETS[id]);
+    for (let i = 1; i < presets.length; i++) {
+      expect(presets[i].ballSpeed).toBeGreaterThan(presets[i - 1].ballSpeed);
+      expect(presets[i].levelSpeedIncrease).toBeGreaterThan(presets[i - 1].levelSpeedIncrease);
+      expect(presets[i].paddleWidth).toBeLessThan(presets[i - 1].paddleWidth);
+      expect(presets[i].maxLives).toBeLessThanOrEqual(presets[i - 1].maxLives);
+    }
+  });
+
+  it('set up a run with the preset\'s lives, paddle and ball speed', () => {
+    const casual = createGameState(configFor('casual'), undefined, 1);
+    const insane = createGameState(configFor('insane'), undefined, 1);
+    expect(casual).toMatchObject({ difficulty: 'casual', lives: 5 });
+    expect(insane).toMatchObject({ difficulty: 'insane', lives: 1 });
+    expect(casual.paddle.width).toBe(140);
+    expect(insane.paddle.width).toBe(64);
+    expect(casual.ballSpeed / insane.ballSpeed).toBeCloseTo(280 / 520);
+  });
+
+  it('speed the ball up each generated level by the preset\'s increase', () => {
+    const config = configFor('hard');
+    const state = loadLevel(createGameState(config, undefined, 1), 50, config, null);
+    expect(state.ballSpeed).toBe(440 + 18 * 49);
+  });
+
+  it('round-trip through a config', () => {
+    for (const id of DIFFICULTIES) {
+      expect(configTuning(configFor(id))).toEqual(difficultyTuning(id));
+    }
+  });
+});
+
+describe('isDifficulty', () => {
+  it('accepts the presets and nothing else', () => {
+    expect(DIFFICULTIES.every(isDifficulty)).toBe(true);
+    expect(isDifficulty('nightmare')).toBe(false);
+    expect(isDifficulty('toString')).toBe(false);
+    expect(isDifficulty(1)).toBe(false);
+  });
+});
+
+describe('stored difficulty', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('reads back the last pick and defaults to Normal', () => {
+    expect(loadDifficulty()).toBe('normal');
+    saveDifficulty('hard');
+    expect(loadDifficulty()).toBe('hard');
+  });
+
+  it('ignores unreadable and unknown values', () => {
+    storage.set('bricks-and-balls:difficulty', '{');
+    expect(loadDifficulty()).toBe('normal');
+    storage.set('bricks-and-balls:difficulty', JSON.stringify({ version: 1, difficulty: 'nightmare' }));
+    expect(loadDifficulty()).toBe('normal');
+  });
+});
@@ -0,0 +1,100 @@
+import { DifficultyId, DifficultyPreset } from '@/types/difficulty';
+import { GameConfig, GameTuning } from '@/types/game';
+
+export const DIFFICULTY_PRESETS: Record<DifficultyId, DifficultyPreset> = {
+  casual: {
+    id: 'casual',
+    name: 'Casual',
+    description: 'Slower ball, wider paddle and five lives',
+    maxLives: 5,
+    paddleWidth: 140,
+    ballSpeed: 280,
+    levelSpeedIncrease: 6,
+  },
+  normal: {
+    id: 'normal',
+    name: 'Normal',
+    description: 'The classic game',
+    maxLives: 3,
+    paddleWidth: 100,
+    ballSpeed: 360,
+    levelSpeedIncrease: 12,
+  },
+  hard: {
+    id: 'hard',
+    name: 'Hard',
+    description: 'Faster ball that speeds up quicker, narrower paddle',
+    maxLives: 3,
+    paddleWidth: 80,
+    ballSpeed: 440,
+    levelSpeedIncrease: 18,
+  },
+  insane: {
+    id: 'insane',
+    name: 'Insane',
+    description: 'One life, a tiny paddle and a very fast ball',
+    maxLives: 1,
+    paddleWidth: 64,
+    ballSpeed: 520,
+    levelSpeedIncrease: 26,
+  },
+};
+
+// In the order they are offered to the player
+export const DIFFICULTIES: DifficultyId[] = ['casual', 'normal', 'hard', 'insane'];
+
+export const DEFAULT_DIFFICULTY: DifficultyId = 'normal';
+
+// Tuning every difficulty shares
+export const BALL_RADIUS = 8;
+const PADDLE_SPEED = 600; // units per second
+
+const STORAGE_KEY = 'bricks-and-balls:difficulty';
+const DIFFICULTY_VERSION = 1;
+
+// Full tuning for a preset
+export function difficultyTuning(id: DifficultyId): GameTuning {
+  const { maxLives, paddleWidth, ballSpeed, levelSpeedIncrease } = DIFFICULTY_PRESETS[id];
+  return {
+    difficulty: id,
+    ballSpeed,
+    levelSpeedIncrease,
+    ballRadius: BALL_RADIUS,
+    paddleSpeed: PADDLE_SPEED,
+    paddleWidth,
+    maxLives,
+  };
+}
+
+// A config's tuning without its playfield size
+export function configTuning(config: GameConfig): GameTuning {
+  const { difficulty, ballSpeed, levelSpeedIncrease, ballRadius, paddleSpeed, paddleWidth, maxLives } = config;
+  return { difficulty, ballSpeed, levelSpeedIncrease, ballRadius, paddleSpeed, paddleWidth, maxLives };
+}
+
+export function createGameConfig(canvasWidth: number, canvasHeight: number, tuning: GameTuning = difficultyTuning(DEFAULT_DIFFICULTY)): GameConfig {
+  return { canvasWidth, canvasHeight, ...tuning };
+}
+
+export function isDifficulty(value: unknown): value is DifficultyId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIFFICULTY_PRESETS, value);
+}
+
+// The difficulty the player last picked, or Normal
+export function loadDifficulty(): DifficultyId {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return stored?.version === DIFFICULTY_VERSION && isDifficulty(stored.difficulty) ? stored.difficulty : DEFAULT_DIFFICULTY;
+  } catch {
+    return DEFAULT_DIFFICULTY;
+  }
+}
+
+export function saveDifficulty(difficulty: DifficultyId) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: DIFFICULTY_VERSION, difficulty }));
+  } catch {
+    // The difficulty still applies for this visit
+  }
+}
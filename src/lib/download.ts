@@ -0,0 +1,10 @@
+// Save text as a file through the browser's download prompt
+export function downloadFile(filename: string, contents: string, type = 'application/json') {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
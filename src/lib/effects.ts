@@ -0,0 +1,293 @@
+import { Position } from '@/types/game';
+
+type ParticleKind = 'fragment' | 'spark' | 'trail' | 'text';
+
+// Pooled and reused: fields are overwritten on spawn rather than allocating new objects
+interface Particle {
+  kind: ParticleKind;
+  x: number;
+  y: number;
+  vx: number; // units per second
+  vy: number;
+  rotation: number; // radians
+  spin: number; // radians per second
+  size: number;
+  color: string;
+  text: string;
+  age: number; // seconds
+  lifetime: number; // seconds
+}
+
+// Particle counts for ordinary and low-end devices
+const PARTICLE_BUDGET = 400;
+const LOW_END_PARTICLE_BUDGET = 150;
+
+const GRAVITY = 900; // units per second², pulling fragments down
+const FRAGMENTS_PER_BRICK = 8;
+const SPARKS_PER_HIT = 6;
+const TRAIL_LIFETIME = 0.12;
+const TEXT_LIFETIME = 0.8;
+const TEXT_RISE = 40; // units per second
+const CONFETTI_PIECES = 60;
+
+/**
+ * Cosmetic particles, screen shake and flashes layered over the game. They
+ * run on wall-clock frame time and are never part of the simulation, so
+ * replays are unaffected. Particles come from a fixed-size pool: spawning
+ * when it is full is a no-op, which keeps frame time and garbage flat on
+ * low-end phones.
+ */
+export class EffectsSystem {
+  private pool: Particle[];
+  // Live particles are pool[0 .. active)
+  private active = 0;
+  private enabled = true;
+  private shakeIntensity = 0; // units of displacement
+  private shakeTime = 0;
+  private shakeDuration = 0;
+  // Displacement for this frame, picked in `update` so it holds still while paused
+  private shakeX = 0;
+  private shakeY = 0;
+  private flashColor = '#ffffff';
+  private flashTime = 0;
+  private flashDuration = 0;
+
+  constructor(maxParticles = particleBudget()) {
+    this.pool = Array.from({ length: maxParticles }, createParticle);
+  }
+
+  public get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Turned off for players who prefer reduced motion
+  public setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.clear();
+    }
+  }
+
+  public clear() {
+    this.active = 0;
+    this.shakeTime = 0;
+    this.shakeX = 0;
+    this.shakeY = 0;
+    this.flashTime = 0;
+  }
+
+  // Fragments in the brick's color, flung out from its center
+  public shatter(x: number, y: number, width: number, height: number, color: string) {
+    for (let i = 0; i < FRAGMENTS_PER_BRICK; i++) {
+      const particle = this.spawn('fragment', x + Math.random() * width, y + Math.random() * height, 0.5 + Math.random() * 0.4);
+      if (!particle) return;
+      const angle = Math.random() * Math.PI * 2;
+      const speed = 60 + Math.random() * 160;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed - 120;
+      particle.spin = (Math.random() - 0.5) * 12;
+      particle.size = 3 + Math.random() * 4;
+      particle.color = color;
+    }
+  }
+
+  // Colored pieces raining down over the whole field, e.g. to celebrate a cleared level
+  public confetti(width: number, colors: string[]) {
+    for (let i = 0; i < CONFETTI_PIECES; i++) {
+      const particle = this.spawn('fragment', Math.random() * width, -10 - Math.random() * 60, 1.2 + Math.random() * 0.8);
+      if (!particle) return;
+      particle.vx = (Math.random() - 0.5) * 120;
+      particle.vy = 60 + Math.random() * 120;
+      particle.spin = (Math.random() - 0.5) * 10;
+      particle.size = 4 + Math.random() * 4;
+      particle.color = colors[i % colors.length];
+    }
+  }
+
+  // Short bright streaks spraying upwards, e.g. where the ball met the paddle
+  public sparks(position: Position, color: string) {
+    for (let i = 0; i < SPARKS_PER_HIT; i++) {
+      const particle = this.spawn('spark', position.x, position.y, 0.2 + Math.random() * 0.15);
+      if (!particle) return;
+      const angle = -Math.PI / 2 + (Math.random() - 0.5) * Math.PI * 0.8;
+      const speed = 150 + Math.random() * 200;
+      particle.vx = Math.cos(angle) * speed;
+      particle.vy = Math.sin(angle) * speed;
+      particle.size = 1.5 + Math.random();
+      particle.color = color;
+    }
+  }
+
+  // A fading copy of the ball left behind where it just was
+  public trail(position: Position, radius: number, color: string) {
+    const particle = this.spawn('trail', position.x, position.y, TRAIL_LIFETIME);
+    if (particle) {
+      particle.size = radius;
+      particle.color = color;
+    }
+  }
+
+  // Text that drifts up and fades, e.g. the points a brick was worth
+  public floatingText(position: Position, text: string, color: string) {
+    const particle = this.spawn('text', position.x, position.y, TEXT_LIFETIME);
+    if (particle) {
+      particle.vy = -TEXT_RISE;
+      particle.text = text;
+      particle.color = color;
+    }
+  }
+
+  // Jolt the playfield; a stronger shake replaces a weaker one still running
+  public shake(intensity: number, duration: number) {
+    if (!this.enabled) return;
+    const remaining = this.shakeTime > 0 ? this.shakeIntensity * (this.shakeTime / this.shakeDuration) : 0;
+    if (intensity < remaining) return;
+    this.shakeIntensity = intensity;
+    this.shakeDuration = duration;
+    this.shakeTime = duration;
+  }
+
+  public flash(color: string, duration: number) {
+    if (!this.enabled) return;
+    this.flashColor = color;
+    this.flashDuration = duration;
+    this.flashTime = duration;
+  }
+
+  public update(dt: number) {
+    if (dt <= 0) return;
+    this.shakeTime = Math.max(0, this.shakeTime - dt);
+    this.flashTime = Math.max(0, this.flashTime - dt);
+
+    const strength = this.shakeTime > 0 ? this.shakeIntensity * (this.shakeTime / this.shakeDuration) : 0;
+    this.shakeX = (Math.random() * 2 - 1) * strength;
+    this.shakeY = (Math.random() * 2 - 1) * strength;
+
+    let i = 0;
+    while (i < this.active) {
+      const particle = this.pool[i];
+      particle.age += dt;
+      if (particle.age >= particle.lifetime) {
+        this.release(i);
+        continue; // the last live particle was swapped into slot i
+      }
+      if (particle.kind === 'fragment') {
+        particle.vy += GRAVITY * dt;
+      }
+      particle.x += particle.vx * dt;
+      particle.y += particle.vy * dt;
+      particle.rotation += particle.spin * dt;
+      i++;
+    }
+  }
+
+  // Current displacement of the playfield; decays to zero over the shake
+  public shakeOffset(): Position {
+    return { x: this.shakeX, y: this.shakeY };
+  }
+
+  // Ball trails, drawn under the balls; call inside any shake transform
+  public drawTrails(ctx: CanvasRenderingContext2D) {
+    this.drawLayer(ctx, true);
+  }
+
+  // Everything but trails, drawn over the balls; call inside any shake transform
+  public drawParticles(ctx: CanvasRenderingContext2D) {
+    this.drawLayer(ctx, false);
+  }
+
+  // Full-canvas flash, fading out
+  public drawFlash(ctx: CanvasRenderingContext2D, width: number, height: number) {
+    if (this.flashTime <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = 0.6 * (this.flashTime / this.flashDuration);
+    ctx.fillStyle = this.flashColor;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+
+  private drawLayer(ctx: CanvasRenderingContext2D, trails: boolean) {
+    if (this.active === 0) return;
+
+    ctx.save();
+    for (let i = 0; i < this.active; i++) {
+      const particle = this.pool[i];
+      if ((particle.kind === 'trail') !== trails) continue;
+      const fade = 1 - particle.age / particle.lifetime;
+      ctx.globalAlpha = fade;
+      ctx.fillStyle = particle.color;
+
+      switch (particle.kind) {
+        case 'fragment':
+          ctx.save();
+          ctx.translate(particle.x, particle.y);
+          ctx.rotate(particle.rotation);
+          ctx.fillRect(-particle.size / 2, -particle.size / 2, particle.size, particle.size * 0.6);
+          ctx.restore();
+          break;
+        case 'spark':
+          ctx.strokeStyle = particle.color;
+          ctx.lineWidth = particle.size;
+          ctx.lineCap = 'round';
+          ctx.beginPath();
+          ctx.moveTo(particle.x, particle.y);
+          ctx.lineTo(particle.x - particle.vx * 0.03, particle.y - particle.vy * 0.03);
+          ctx.stroke();
+          break;
+        case 'trail':
+          ctx.beginPath();
+          ctx.arc(particle.x, particle.y, particle.size * (0.4 + 0.6 * fade), 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        case 'text':
+          ctx.font = 'bold 14px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
+          ctx.textAlign = 'center';
+          ctx.fillText(particle.text, particle.x, particle.y);
+          break;
+      }
+    }
+    ctx.restore();
+  }
+
+  // Take the next free particle from the pool, or null when it is exhausted or effects are off
+  private spawn(kind: ParticleKind, x: number, y: number, lifetime: number): Particle | null {
+    if (!this.enabled || this.active >= this.pool.length) return null;
+
+    const particle = this.pool[this.active++];
+    particle.kind = kind;
+    particle.x = x;
+    particle.y = y;
+    particle.vx = 0;
+    particle.vy = 0;
+    particle.rotation = 0;
+    particle.spin = 0;
+    particle.age = 0;
+    particle.lifetime = lifetime;
+    return particle;
+  }
+
+  // Free slot i by swapping the last live particle into it
+  private release(i: number) {
+    const last = --this.active;
+    if (i !== last) {
+      const freed = this.pool[i];
+      this.pool[i] = this.pool[last];
+      this.pool[last] = freed;
+    }
+  }
+}
+
+/**
+ * How many particles this device can afford. Few cores or little memory
+ * (where the browser reports it) suggests a low-end phone.
+ */
+export function particleBudget(): number {
+  if (typeof navigator === 'undefined') return PARTICLE_BUDGET;
+  const memory = (navigator as { deviceMemory?: number }).deviceMemory;
+  const lowEnd = navigator.hardwareConcurrency <= 2 || (memory !== undefined && memory <= 2);
+  return lowEnd ? LOW_END_PARTICLE_BUDGET : PARTICLE_BUDGET;
+}
+
+function createParticle(): Particle {
+  return { kind: 'spark', x: 0, y: 0, vx: 0, vy: 0, rotation: 0, spin: 0, size: 0, color: '', text: '', age: 0, lifetime: 0 };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventBus } from '@/lib/eventBus';
+
+interface TestEvents {
+  scored: { points: number };
+  ended: { reason: string };
+}
+
+describe('EventBus', () => {
+  it('hands each listener the payloads of its own event only', () => {
+    const bus = new EventBus<TestEvents>();
+    const scored = vi.fn();
+    const ended = vi.fn();
+    bus.on('scored', scored);
+    bus.on('ended', ended);
+
+    bus.emit('scored', { points: 10 });
+    expect(scored).toHaveBeenCalledWith({ points: 10 });
+    expect(ended).not.toHaveBeenCalled();
+  });
+
+  it('calls a listener added twice once', () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    bus.on('scored', listener);
+    bus.on('scored', listener);
+    bus.emit('scored', { points: 1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops calling a listener once it is removed', () => {
+    const bus = new EventBus<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    const unsubscribe = bus.on('scored', first);
+    bus.on('scored', second);
+
+    unsubscribe();
+    bus.off('scored', second);
+    bus.emit('scored', { points: 1 });
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('still calls every listener when one unsubscribes another mid-emit', () => {
+    const bus = new EventBus<TestEvents>();
+    const calls: string[] = [];
+    const second = () => calls.push('second');
+    bus.on('scored', () => {
+      calls.push('first');
+      bus.off('scored', second);
+    });
+    bus.on('scored', second);
+
+    bus.emit('scored', { points: 1 });
+    bus.emit('scored', { points: 2 });
+    expect(calls).toEqual(['first', 'second', 'first']);
+  });
+
+  it('drops every listener on clear', () => {
+    const bus = new EventBus<TestEvents>();
+    const listener = vi.fn();
+    bus.on('scored', listener);
+    bus.on('ended', listener);
+    bus.clear();
+    bus.emit('scored', { points: 1 });
+    bus.emit('ended', { reason: 'quit' });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed publish/subscribe. `Events` maps each event name to the
+ * payload its listeners receive, so a listener for one event can't be handed
+ * another's payload.
+ */
+export class EventBus<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns a function that removes the listener again
+  public on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[type] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  public off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this.listeners[type]?.delete(listener);
+  }
+
+  public emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const listeners = this.listeners[type];
+    if (!listeners || listeners.size === 0) return;
+    // Copied first, so listeners may unsubscribe while being called
+    Array.from(listeners).forEach(listener => listener(payload));
+  }
+
+  public clear() {
+    this.listeners = {};
+  }
+}
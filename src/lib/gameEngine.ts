@@ -1,752 +1,909 @@
-import { GameState, Ball, Paddle, Block, Controls, GameConfig, Position } from '@/types/game';
-
+import { GameState, GameConfig, GameTuning } from '@/types/game';
+import {
+  FIXED_TIMESTEP,
+  SimulationEvent,
+  BRICK_COLORS,
+  createGameState,
+  pauseGame,
+  resumeGame,
+  startGame,
+  stepSimulation,
+} from '@/lib/simulation';
+import { GameRenderer } from '@/lib/renderer';
+import { AudioEngine, loadAudioSettings, saveAudioSettings } from '@/lib/audio';
+import { EffectsSystem } from '@/lib/effects';
+import { EventBus } from '@/lib/eventBus';
+import { isRunActive } from '@/lib/gamePhase';
+import { configTuning, createGameConfig, difficultyTuning, loadDifficulty, saveDifficulty } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH, clientToPlayfield, devicePixelRatio, fitCanvasToDisplay } from '@/lib/playfield';
+import {
+  REDUCED_MOTION_QUERY,
+  loadAccessibilitySettings,
+  resolveReducedMotion,
+  saveAccessibilitySettings,
+} from '@/lib/accessibility';
+import { DARK_SCHEME_QUERY, applyPageTheme, currentTheme, loadThemePreference, saveThemePreference } from '@/lib/themes';
+import { GamepadTracker } from '@/lib/gamepad';
+import { InputMapper } from '@/lib/inputActions';
+import { describeBinding, loadBindings } from '@/lib/inputBindings';
+import { InputRecorder, RecordingPlayer } from '@/lib/inputRecording';
+import { SNAPSHOT_INTERVAL, createReplay } from '@/lib/replay';
+import { loadStoredRecording, saveFinishedRun } from '@/lib/replayStorage';
+import { SavedGameError, clearSavedGame, readSavedGame, writeSavedGame } from '@/lib/savedGame';
+import { createSeed } from '@/lib/random';
+import { AccessibilitySettings } from '@/types/accessibility';
+import { AudioSettings } from '@/types/audio';
+import { DifficultyId } from '@/types/difficulty';
+import { EngineSnapshot, GameEngineEvents, GameSnapshot } from '@/types/engine';
+import { InputAction, InputBindings } from '@/types/input';
+import { LevelDefinition } from '@/types/level';
+import { InputRecording, ReplayFile, ReplaySnapshot } from '@/types/recording';
+import { SAVED_GAME_VERSION, SavedGame } from '@/types/savedGame';
+import { RenderTheme, ThemePreference } from '@/types/theme';
+
+export interface GameEngineOptions {
+  // Play this layout as level 1 instead of the bundled one
+  level?: LevelDefinition;
+  // Seed for the first run; later runs after a reset get fresh seeds
+  seed?: number;
+  // Race a translucent ghost of the best stored run
+  ghost?: boolean;
+  // Key and controller bindings; defaults to the player's saved ones
+  bindings?: InputBindings;
+  // Preset to start from; defaults to the one the player last picked
+  difficulty?: DifficultyId;
+  // Overrides for single values of the preset
+  config?: Partial<GameTuning>;
+}
+
+// Frames longer than this (tab switch, debugger) are clamped so the ball never teleports
+const MAX_FRAME_TIME = 0.25; // seconds
+// Ticks between saves of an unfinished run, on top of saving on pause and when the page is hidden
+const AUTOSAVE_INTERVAL = 1200; // 10 seconds
+
+/**
+ * Browser shell around the simulation: owns the canvas, feeds DOM and
+ * controller input through the action layer into `Controls`, drives the
+ * fixed-timestep loop and hands states to the renderer. All game rules live
+ * in `@/lib/simulation`. The page follows along through `on` and
+ * `getSnapshot` rather than reading the engine's state directly.
+ */
 export class GameEngine {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private renderer: GameRenderer;
   private gameState: GameState;
-  private controls: Controls;
+  // State as of the previous tick, used to interpolate rendering between ticks
+  private previousState: GameState;
+  private input: InputMapper;
+  private audio: AudioEngine;
+  private effects = new EffectsSystem();
+  private themePreference: ThemePreference;
+  private theme: RenderTheme;
+  private accessibility: AccessibilitySettings;
+  // Bricks broken since the ball last touched the paddle; raises their pitch
+  private combo = 0;
+  // Everything in the config but the playfield size, which follows the canvas
+  private tuning: GameTuning;
   private config!: GameConfig;
   private animationId?: number;
+  // Whether the game loop is scheduled; it keeps going after a game over
+  private looping = false;
   private lastTime = 0;
-  private eventListeners: Array<{ element: Element | Document, event: string, handler: EventListener }> = [];
+  private accumulator = 0;
+  private eventListeners: Array<{ element: EventTarget, event: string, handler: EventListener }> = [];
   private touchStartY = 0;
-
-  constructor(canvas: HTMLCanvasElement) {
+  // A launch press, click or tap since the last tick; serves the ball or launches one held by a
+  // sticky paddle. Only ever passed on for one tick, so holding the key down doesn't keep launching
+  private launchRequested = false;
+  private gamepads = new GamepadTracker();
+  // Polls the controller while the game loop isn't running, so A can start a game
+  private gamepadPollId?: number;
+  private customLevel?: LevelDefinition;
+  private recorder: InputRecorder;
+  private snapshots: ReplaySnapshot[] = [];
+  private ghostEnabled: boolean;
+  private ghost: RecordingPlayer | null = null;
+  private events = new EventBus<GameEngineEvents>();
+  // Replaced, never changed, whenever anything in it changes; see `publish`
+  private snapshot!: EngineSnapshot;
+  // Unfinished run from an earlier visit, until it is continued or replaced
+  private savedGame: SavedGame | null = null;
+  private savedGameNotice: string | null = null;
+
+  constructor(canvas: HTMLCanvasElement, options: GameEngineOptions = {}) {
     this.canvas = canvas;
-    this.ctx = canvas.getContext('2d')!;
+    this.customLevel = options.level;
+    this.ghostEnabled = options.ghost ?? false;
 
+    this.tuning = { ...difficultyTuning(options.difficulty ?? loadDifficulty()), ...options.config };
     this.updateConfig();
-
-    this.controls = {
-      leftPressed: false,
-      rightPressed: false,
-    };
-
-    this.gameState = this.initializeGame();
+    this.themePreference = loadThemePreference();
+    this.theme = currentTheme(this.themePreference);
+    this.renderer = new GameRenderer(canvas.getContext('2d')!, PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT, this.theme);
+    this.renderer.setPixelRatio(devicePixelRatio());
+    fitCanvasToDisplay(canvas);
+    this.accessibility = loadAccessibilitySettings();
+    this.renderer.setBrickStyle(this.accessibility.brickPalette, this.accessibility.brickGlyphs);
+
+    this.input = new InputMapper(options.bindings ?? loadBindings());
+    this.updateLaunchHint();
+    this.audio = new AudioEngine(loadAudioSettings());
+
+    const seed = options.seed ?? createSeed();
+    this.gameState = createGameState(this.config, this.customLevel, seed);
+    this.previousState = this.gameState;
+    this.recorder = new InputRecorder(seed, this.config, this.customLevel);
+    if (!this.customLevel) {
+      this.loadSavedGame();
+    }
+    this.snapshot = this.createSnapshot();
     this.setupEventListeners();
+    this.render();
   }
 
   private updateConfig() {
-    this.config = {
-      canvasWidth: this.canvas.width,
-      canvasHeight: this.canvas.height,
-      ballSpeed: 6,
-      paddleSpeed: 10,
-      maxLives: 3,
-    };
-  }
-
-  private initializeGame(): GameState {
-    const ballRadius = 8;
-    const paddleWidth = 100;
-    const paddleHeight = 15;
-    const paddleX = (this.config.canvasWidth - paddleWidth) / 2;
-    const paddleY = this.config.canvasHeight - paddleHeight - 20;
-
-    return {
-      isRunning: false,
-      isPaused: false,
-      score: 0,
-      lives: this.config.maxLives,
-      level: 1,
-      ball: {
-        position: {
-          x: this.config.canvasWidth / 2,
-          y: paddleY - ballRadius - 5,
-        },
-        velocity: { x: 3, y: -3 },
-        radius: ballRadius,
-        color: '#ff6b6b',
-      },
-      paddle: {
-        position: { x: paddleX, y: paddleY },
-        width: paddleWidth,
-        height: paddleHeight,
-        speed: this.config.paddleSpeed,
-        color: '#4ecdc4',
-      },
-      blocks: this.generateBlocks(1),
-    };
-  }
-
-  private generateBlocks(level: number): Block[] {
-    const blocks: Block[] = [];
-    const blockWidth = 80;
-    const blockHeight = 25;
-    const padding = 5;
-    const offsetTop = 60;
-    const offsetLeft = 35;
-
-    const rows = Math.min(3 + Math.floor(level / 2), 8);
-    const cols = Math.floor((this.config.canvasWidth - 2 * offsetLeft) / (blockWidth + padding));
-
-    const colors = [
-      '#ff6b6b', '#feca57', '#48cae4', '#06ffa5',
-      '#ff9ff3', '#f38ba8', '#a6e3a1', '#fab387'
-    ];
-
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        blocks.push({
-          position: {
-            x: offsetLeft + c * (blockWidth + padding),
-            y: offsetTop + r * (blockHeight + padding),
-          },
-          width: blockWidth,
-          height: blockHeight,
-          color: colors[r % colors.length],
-          destroyed: false,
-          points: (rows - r) * 10,
-        });
-      }
-    }
-
-    return blocks;
+    this.config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT, this.tuning);
   }
 
   private setupEventListeners() {
-    // Keyboard controls
+    // Keyboard: bound keys become actions, anything else is left to the page
     const keyDownHandler = (e: KeyboardEvent) => {
-      if (e.code === 'ArrowLeft' || e.code === 'KeyA') {
-        this.controls.leftPressed = true;
-      }
-      if (e.code === 'ArrowRight' || e.code === 'KeyD') {
-        this.controls.rightPressed = true;
-      }
-      if (e.code === 'Space') {
-        e.preventDefault();
-        if (!this.gameState.isRunning) {
-          this.start();
-        } else if (this.gameState.isPaused) {
-          this.resume();
-        } else {
-          this.pause();
-        }
+      // Leave typing in form fields (e.g. a high-score name) alone, and let Space and Enter press a focused button
+      if (isEditableTarget(e.target) || (isActivationKey(e.code) && isButtonTarget(e.target)) || !this.input.isBoundKey(e.code)) return;
+      e.preventDefault();
+      const action = this.input.keyDown(e.code);
+      if (action) {
+        this.handleActionPressed(action);
       }
     };
 
     const keyUpHandler = (e: KeyboardEvent) => {
-      if (e.code === 'ArrowLeft' || e.code === 'KeyA') {
-        this.controls.leftPressed = false;
-      }
-      if (e.code === 'ArrowRight' || e.code === 'KeyD') {
-        this.controls.rightPressed = false;
-      }
+      this.input.keyUp(e.code);
+    };
+
+    // Key-ups are missed while another window has focus
+    const blurHandler = () => {
+      this.input.releaseAll();
     };
 
     // Touch controls with improved tracking
     const touchStartHandler = (e: TouchEvent) => {
       e.preventDefault();
       const touch = e.touches[0];
-      const rect = this.canvas.getBoundingClientRect();
-      const scaleX = this.canvas.width / rect.width;
-      this.controls.touchX = (touch.clientX - rect.left) * scaleX;
+      this.input.setPointer(this.toPlayfieldX(touch.clientX));
       this.touchStartY = touch.clientY;
-
-      if (!this.gameState.isRunning) {
-        this.start();
-      }
+      this.handleTap();
     };
 
     const touchMoveHandler = (e: TouchEvent) => {
       e.preventDefault();
       if (e.touches.length > 0) {
-        const touch = e.touches[0];
-        const rect = this.canvas.getBoundingClientRect();
-        const scaleX = this.canvas.width / rect.width;
-        this.controls.touchX = (touch.clientX - rect.left) * scaleX;
+        this.input.setPointer(this.toPlayfieldX(e.touches[0].clientX));
       }
     };
 
     const touchEndHandler = (e: TouchEvent) => {
       e.preventDefault();
-      this.controls.touchX = undefined;
+      this.input.setPointer(undefined);
     };
 
     // Mouse controls with improved scaling
     const mouseMoveHandler = (e: MouseEvent) => {
-      const rect = this.canvas.getBoundingClientRect();
-      const scaleX = this.canvas.width / rect.width;
-      this.controls.touchX = (e.clientX - rect.left) * scaleX;
+      this.input.setPointer(this.toPlayfieldX(e.clientX));
     };
 
-    const clickHandler = () => {
-      if (!this.gameState.isRunning) {
-        this.start();
+    const clickHandler = () => this.handleTap();
+
+    // Keep the run if the tab is backgrounded or closed; mobile browsers may not come back
+    const visibilityChangeHandler = () => {
+      if (document.visibilityState === 'hidden') {
+        this.saveProgress();
+        this.audio.suspend();
+      } else if (isRunActive(this.gameState.phase) && this.gameState.phase !== 'paused') {
+        this.audio.resume();
       }
     };
+    const pageHideHandler = () => this.saveProgress();
+
+    // Particles and shake are motion the player may have asked to avoid
+    const reducedMotion = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    const reducedMotionHandler = () => this.applyMotion();
+
+    // The system theme follows the OS light/dark setting as it changes
+    const darkScheme = window.matchMedia?.(DARK_SCHEME_QUERY);
+    const darkSchemeHandler = () => {
+      if (this.themePreference === 'system') {
+        this.applyTheme();
+      }
+    };
+
+    // Browsers (mobile ones especially) only allow audio to start from a user gesture
+    const unlockAudioHandler = () => this.audio.unlock();
+
+    // Controllers can be plugged in or switched on at any point
+    const gamepadConnectedHandler = (e: GamepadEvent) => {
+      this.gamepads.connect(e.gamepad);
+      this.input.resetGamepad();
+      this.startIdleGamepadPolling();
+      this.publish();
+    };
+    const gamepadDisconnectedHandler = (e: GamepadEvent) => {
+      this.gamepads.disconnect(e.gamepad);
+      this.input.resetGamepad();
+      this.publish();
+    };
 
     // Add event listeners and store references for cleanup
     this.addEventListenerWithTracking(document, 'keydown', keyDownHandler as EventListener);
     this.addEventListenerWithTracking(document, 'keyup', keyUpHandler as EventListener);
+    this.addEventListenerWithTracking(window, 'blur', blurHandler);
     this.addEventListenerWithTracking(this.canvas, 'touchstart', touchStartHandler as EventListener);
     this.addEventListenerWithTracking(this.canvas, 'touchmove', touchMoveHandler as EventListener);
     this.addEventListenerWithTracking(this.canvas, 'touchend', touchEndHandler as EventListener);
     this.addEventListenerWithTracking(this.canvas, 'mousemove', mouseMoveHandler as EventListener);
     this.addEventListenerWithTracking(this.canvas, 'click', clickHandler as EventListener);
+    this.addEventListenerWithTracking(document, 'visibilitychange', visibilityChangeHandler);
+    this.addEventListenerWithTracking(window, 'pagehide', pageHideHandler);
+    this.addEventListenerWithTracking(document, 'pointerdown', unlockAudioHandler);
+    this.addEventListenerWithTracking(document, 'touchend', unlockAudioHandler);
+    this.addEventListenerWithTracking(document, 'keydown', unlockAudioHandler);
+    this.applyMotion();
+    if (reducedMotion) {
+      this.addEventListenerWithTracking(reducedMotion, 'change', reducedMotionHandler);
+    }
+    if (darkScheme) {
+      this.addEventListenerWithTracking(darkScheme, 'change', darkSchemeHandler);
+    }
+    this.addEventListenerWithTracking(window, 'gamepadconnected', gamepadConnectedHandler as EventListener);
+    this.addEventListenerWithTracking(window, 'gamepaddisconnected', gamepadDisconnectedHandler as EventListener);
   }
 
-  private addEventListenerWithTracking(element: Element | Document, event: string, handler: EventListener) {
-    element.addEventListener(event, handler);
-    this.eventListeners.push({ element, event, handler });
+  // Client x coordinate to playfield units
+  private toPlayfieldX(clientX: number): number {
+    return clientToPlayfield(this.canvas, clientX, 0).x;
   }
 
-  private update(deltaTime: number) {
-    if (!this.gameState.isRunning || this.gameState.isPaused) return;
-
-    this.updatePaddle();
-    this.updateBall();
-    this.checkCollisions();
-    this.checkGameOver();
-    this.checkLevelComplete();
+  // A click or tap on the playfield does whatever moves the game along
+  private handleTap() {
+    const { phase } = this.gameState;
+    if (phase === 'title') {
+      this.start();
+    } else if (phase === 'paused') {
+      this.resume();
+    } else {
+      this.launchRequested = true;
+    }
   }
 
-  private updatePaddle() {
-    const paddle = this.gameState.paddle;
-
-    if (this.controls.touchX !== undefined) {
-      // Touch/mouse control
-      paddle.position.x = this.controls.touchX - paddle.width / 2;
-    } else {
-      // Keyboard control
-      if (this.controls.leftPressed) {
-        paddle.position.x -= paddle.speed;
+  // One-off responses to an action being pressed; held actions are read every tick
+  private handleActionPressed(action: InputAction) {
+    const { phase } = this.gameState;
+    if (action === 'pause') {
+      if (phase === 'title') {
+        this.start();
+      } else if (phase === 'paused') {
+        this.resume();
+      } else if (phase !== 'gameOver') {
+        this.pause();
       }
-      if (this.controls.rightPressed) {
-        paddle.position.x += paddle.speed;
+    } else if (action === 'launch') {
+      // The press that starts a game doesn't also serve: serving takes a press of its own
+      if (phase === 'title') {
+        this.start();
+      } else {
+        this.launchRequested = true;
       }
+    } else if (action === 'mute') {
+      const settings = this.audio.currentSettings;
+      this.setAudioSettings({ ...settings, muted: !settings.muted });
     }
-
-    // Keep paddle within bounds
-    paddle.position.x = Math.max(0, Math.min(this.config.canvasWidth - paddle.width, paddle.position.x));
   }
 
-  private updateBall() {
-    const ball = this.gameState.ball;
-
-    ball.position.x += ball.velocity.x;
-    ball.position.y += ball.velocity.y;
+  private addEventListenerWithTracking(element: EventTarget, event: string, handler: EventListener) {
+    element.addEventListener(event, handler);
+    this.eventListeners.push({ element, event, handler });
+  }
 
-    // Wall collisions
-    if (ball.position.x <= ball.radius || ball.position.x >= this.config.canvasWidth - ball.radius) {
-      ball.velocity.x = -ball.velocity.x;
-      ball.position.x = Math.max(ball.radius, Math.min(this.config.canvasWidth - ball.radius, ball.position.x));
+  private tick() {
+    this.previousState = this.gameState;
+    const controls = this.input.getControls();
+    if (this.launchRequested) {
+      controls.launch = true;
     }
-
-    if (ball.position.y <= ball.radius) {
-      ball.velocity.y = -ball.velocity.y;
-      ball.position.y = ball.radius;
+    this.launchRequested = false;
+    if (this.recorder.ticks % SNAPSHOT_INTERVAL === 0) {
+      this.snapshots.push({ tick: this.recorder.ticks, config: this.config, state: this.gameState });
     }
-
-    // Bottom boundary (lose life)
-    if (ball.position.y >= this.config.canvasHeight + ball.radius) {
-      this.loseLife();
+    this.recorder.recordTick(controls);
+    const { state, events } = stepSimulation(this.gameState, controls, this.config, FIXED_TIMESTEP);
+    this.gameState = state;
+    this.stepGhost();
+    this.handleEvents(events);
+    if (state.score !== this.previousState.score) {
+      this.events.emit('scoreChanged', { score: state.score, previousScore: this.previousState.score });
+    }
+    if (this.recorder.ticks % AUTOSAVE_INTERVAL === 0) {
+      this.saveProgress();
     }
   }
 
-  private checkCollisions() {
-    const ball = this.gameState.ball;
-    const paddle = this.gameState.paddle;
-
-    // Paddle collision with improved positioning
-    if (this.isColliding(ball, paddle) && ball.velocity.y > 0) {
-      ball.velocity.y = -Math.abs(ball.velocity.y);
+  private handleEvents(events: SimulationEvent[]) {
+    for (const event of events) {
+      this.playSound(event);
+      this.showEffects(event);
+      this.forwardEvent(event);
+      if (event.type === 'phaseChanged' && event.to === 'serving') {
+        // The ball was reset to the paddle; don't interpolate across the jump
+        this.previousState = this.gameState;
+      }
+      if (event.type === 'gameOver') {
+        this.audio.stopMusic();
+        if (!this.customLevel) {
+          saveFinishedRun(this.getReplay());
+          clearSavedGame();
+        }
+      }
+    }
+  }
 
-      // Add angle based on where ball hits paddle
-      const paddleCenter = paddle.position.x + paddle.width / 2;
-      const hitPos = Math.max(-1, Math.min(1, (ball.position.x - paddleCenter) / (paddle.width / 2)));
-      ball.velocity.x = hitPos * 5;
+  // Pass the simulation events the page may care about on to subscribers
+  private forwardEvent(event: SimulationEvent) {
+    switch (event.type) {
+      case 'paddleHit':
+        this.events.emit('paddleHit', { position: event.position });
+        break;
+      case 'blockDestroyed':
+        this.events.emit('blockDestroyed', { block: event.block, cause: event.cause, points: event.points });
+        break;
+      case 'lifeLost':
+        this.events.emit('lifeLost', { livesRemaining: event.livesRemaining });
+        break;
+      case 'levelCompleted':
+        this.events.emit('levelCompleted', { level: event.level, summary: event.summary });
+        break;
+      case 'gameOver':
+        this.events.emit('gameOver', { state: this.gameState });
+        break;
+    }
+  }
 
-      // Normalize speed
-      const speed = Math.sqrt(ball.velocity.x * ball.velocity.x + ball.velocity.y * ball.velocity.y);
-      const targetSpeed = this.config.ballSpeed;
-      ball.velocity.x = (ball.velocity.x / speed) * targetSpeed;
-      ball.velocity.y = (ball.velocity.y / speed) * targetSpeed;
+  private playSound(event: SimulationEvent) {
+    switch (event.type) {
+      case 'paddleHit':
+        this.combo = 0;
+        this.audio.play({ type: 'paddleHit' });
+        break;
+      case 'wallHit':
+        this.audio.play({ type: 'wallHit' });
+        break;
+      case 'blockHit':
+        this.audio.play({ type: 'brickHit' });
+        break;
+      case 'blockDestroyed':
+        // Bricks caught in a blast are covered by the explosion sound
+        if (event.cause === 'ball') {
+          const row = Math.floor(event.block.position.y / event.block.height);
+          this.audio.play({ type: 'brickBreak', row, combo: this.combo++ });
+        }
+        break;
+      case 'explosion':
+        this.audio.play({ type: 'explosion' });
+        break;
+      case 'powerUpCollected':
+        this.audio.play({ type: 'powerUp' });
+        break;
+      case 'lifeLost':
+        this.combo = 0;
+        // The last life gets the game over sound instead
+        if (event.livesRemaining > 0) {
+          this.audio.play({ type: 'lifeLost' });
+        }
+        break;
+      case 'levelCompleted':
+        this.combo = 0;
+        this.audio.play({ type: 'levelClear' });
+        break;
+      case 'gameOver':
+        this.audio.play({ type: 'gameOver' });
+        break;
+    }
+  }
 
-      // Ensure ball is above paddle
-      ball.position.y = paddle.position.y - ball.radius - 2;
+  private showEffects(event: SimulationEvent) {
+    switch (event.type) {
+      case 'paddleHit':
+        this.effects.sparks(event.position, this.theme.effects.spark);
+        break;
+      case 'blockDestroyed': {
+        const { position, width, height, color } = event.block;
+        this.effects.shatter(position.x, position.y, width, height, color);
+        if (event.points > 0) {
+          this.effects.floatingText({ x: position.x + width / 2, y: position.y + height / 2 }, `+${event.points}`, this.theme.effects.text);
+        }
+        break;
+      }
+      case 'explosion':
+        this.effects.sparks(event.position, '#ff9f43');
+        this.effects.shake(4, 0.2);
+        break;
+      case 'lifeLost':
+        this.effects.shake(10, 0.4);
+        break;
+      case 'levelCompleted':
+        this.effects.flash(this.theme.effects.flash, 0.35);
+        this.effects.confetti(PLAYFIELD_WIDTH, BRICK_COLORS);
+        break;
     }
+  }
 
-    // Block collisions with improved reflection
-    for (let i = 0; i < this.gameState.blocks.length; i++) {
-      const block = this.gameState.blocks[i];
-      if (!block.destroyed && this.isColliding(ball, block)) {
-        block.destroyed = true;
-        this.gameState.score += block.points;
+  private loadSavedGame() {
+    try {
+      this.savedGame = readSavedGame();
+    } catch (error) {
+      if (!(error instanceof SavedGameError)) throw error;
+      // The save is already gone; the page tells the player through the snapshot
+      this.savedGameNotice = 'Your unfinished game was saved by an incompatible version and could not be restored.';
+    }
+  }
 
-        // Improved collision detection
-        const ballPrevX = ball.position.x - ball.velocity.x;
-        const ballPrevY = ball.position.y - ball.velocity.y;
+  // Store the run so far so it can be continued after a reload
+  private saveProgress() {
+    if (this.customLevel || !isRunActive(this.gameState.phase)) return;
 
-        const blockLeft = block.position.x;
-        const blockRight = block.position.x + block.width;
-        const blockTop = block.position.y;
-        const blockBottom = block.position.y + block.height;
+    writeSavedGame({
+      version: SAVED_GAME_VERSION,
+      savedAt: new Date().toISOString(),
+      config: this.config,
+      state: this.gameState,
+      recording: this.recorder.getRecording(),
+    });
+  }
 
-        // Determine which side was hit based on previous position
-        const fromLeft = ballPrevX < blockLeft;
-        const fromRight = ballPrevX > blockRight;
-        const fromTop = ballPrevY < blockTop;
-        const fromBottom = ballPrevY > blockBottom;
+  // Load the best stored run to race against, lined up with the live start
+  private startGhost() {
+    this.ghost = null;
+    if (!this.ghostEnabled || this.customLevel) return;
 
-        if (fromLeft || fromRight) {
-          ball.velocity.x = -ball.velocity.x;
-          ball.position.x = fromLeft ? blockLeft - ball.radius : blockRight + ball.radius;
-        } else if (fromTop || fromBottom) {
-          ball.velocity.y = -ball.velocity.y;
-          ball.position.y = fromTop ? blockTop - ball.radius : blockBottom + ball.radius;
-        } else {
-          // Corner collision - bounce both directions
-          ball.velocity.x = -ball.velocity.x;
-          ball.velocity.y = -ball.velocity.y;
-        }
+    // A race only means something on the same difficulty, so each has its own best run
+    const recording = loadStoredRecording(`best:${this.config.difficulty}`);
+    // Positions only line up on a playfield of the same size
+    if (!recording || recording.config.canvasWidth !== this.config.canvasWidth ||
+        recording.config.canvasHeight !== this.config.canvasHeight) {
+      return;
+    }
 
-        break; // Only handle one collision per frame
-      }
+    const ghost = new RecordingPlayer(recording);
+    while (!ghost.finished && ghost.state.phase === 'title') {
+      ghost.step();
     }
+    this.ghost = ghost;
   }
 
-  private isColliding(ball: Ball, rect: { position: Position; width: number; height: number }): boolean {
-    const distX = Math.abs(ball.position.x - rect.position.x - rect.width / 2);
-    const distY = Math.abs(ball.position.y - rect.position.y - rect.height / 2);
+  private stepGhost() {
+    const ghost = this.ghost;
+    if (!ghost || !isRunActive(this.gameState.phase) || this.gameState.phase === 'paused') return;
 
-    if (distX > (rect.width / 2 + ball.radius)) return false;
-    if (distY > (rect.height / 2 + ball.radius)) return false;
+    // Skip over the ghost's own pauses
+    do {
+      ghost.step();
+    } while (!ghost.finished && ghost.state.phase === 'paused');
 
-    if (distX <= (rect.width / 2)) return true;
-    if (distY <= (rect.height / 2)) return true;
+    if (ghost.finished || !isRunActive(ghost.state.phase)) {
+      this.ghost = null;
+    }
+  }
 
-    const dx = distX - rect.width / 2;
-    const dy = distY - rect.height / 2;
-    return (dx * dx + dy * dy <= (ball.radius * ball.radius));
+  private render(alpha = 1) {
+    this.renderer.render(this.gameState, this.previousState, alpha, this.ghost?.state, this.effects);
   }
 
-  private loseLife() {
-    this.gameState.lives--;
-    if (this.gameState.lives > 0) {
-      this.resetBall();
-    } else {
-      this.gameOver();
+  // Read the active controller once per frame; its buttons go through the bindings like keys
+  private pollGamepad() {
+    const reading = this.gamepads.poll();
+    if (!reading) return;
+
+    for (const action of this.input.updateGamepad(reading.buttons, reading.stickX)) {
+      this.handleActionPressed(action);
     }
   }
 
-  private resetBall() {
-    const paddleX = this.gameState.paddle.position.x;
-    const paddleY = this.gameState.paddle.position.y;
+  private startIdleGamepadPolling() {
+    if (this.looping || this.gamepadPollId !== undefined) return;
 
-    this.gameState.ball.position = {
-      x: paddleX + this.gameState.paddle.width / 2,
-      y: paddleY - this.gameState.ball.radius - 5,
+    const poll = () => {
+      this.gamepadPollId = undefined;
+      if (this.looping || !this.gamepads.activeName) return;
+      this.pollGamepad();
+      this.publish();
+      if (!this.looping) {
+        this.gamepadPollId = requestAnimationFrame(poll);
+      }
     };
-    this.gameState.ball.velocity = { x: 3, y: -3 };
+    this.gamepadPollId = requestAnimationFrame(poll);
   }
 
-  private checkGameOver() {
-    if (this.gameState.lives <= 0) {
-      this.gameOver();
+  private gameLoop = (currentTime: number) => {
+    this.pollGamepad();
+
+    const frameTime = Math.max(0, Math.min((currentTime - this.lastTime) / 1000, MAX_FRAME_TIME));
+    this.lastTime = currentTime;
+    // A slower game speed stretches real time; the ticks themselves never change
+    const gameTime = frameTime * this.accessibility.gameSpeed;
+    this.accumulator += gameTime;
+
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.tick();
+      this.accumulator -= FIXED_TIMESTEP;
     }
-  }
 
-  private checkLevelComplete() {
-    const remainingBlocks = this.gameState.blocks.filter(block => !block.destroyed);
-    if (remainingBlocks.length === 0) {
-      this.nextLevel();
+    // Effects freeze while the game is paused, and play out after a game over
+    if (this.gameState.phase !== 'paused') {
+      this.effects.update(gameTime);
+    }
+    if (this.gameState.phase === 'playing') {
+      for (const ball of this.gameState.balls) {
+        if (ball.stuckOffset === undefined) {
+          this.effects.trail(ball.position, ball.radius, this.theme.effects.trail);
+        }
+      }
+    }
+
+    this.render(this.accumulator / FIXED_TIMESTEP);
+    this.publish();
+
+    this.animationId = requestAnimationFrame(this.gameLoop);
+  };
+
+  public start() {
+    if (this.gameState.phase === 'title') {
+      this.gameState = startGame(this.gameState);
+      this.launchRequested = false;
+      this.recorder.recordCommand('start');
+      this.startGhost();
+      this.previousState = this.gameState;
+      // A new run replaces any unfinished one
+      this.discardSavedGame();
+      this.combo = 0;
+      this.effects.clear();
+      this.audio.resume();
+      this.audio.startMusic();
+      this.startLoop();
+      this.publish();
     }
   }
 
-  private nextLevel() {
-    this.gameState.level++;
-    this.gameState.blocks = this.generateBlocks(this.gameState.level);
-    this.resetBall();
+  private startLoop() {
+    this.lastTime = performance.now();
+    this.accumulator = 0;
+    // Starting again after a game over, or from a controller poll inside the loop
+    if (this.looping) return;
 
-    // Increase ball speed slightly
-    const speedIncrease = 0.2;
-    const currentSpeed = Math.sqrt(this.gameState.ball.velocity.x ** 2 + this.gameState.ball.velocity.y ** 2);
-    const newSpeed = currentSpeed + speedIncrease;
-    const normalizedVel = {
-      x: (this.gameState.ball.velocity.x / currentSpeed) * newSpeed,
-      y: (this.gameState.ball.velocity.y / currentSpeed) * newSpeed,
-    };
-    this.gameState.ball.velocity = normalizedVel;
+    this.looping = true;
+    this.gameLoop(this.lastTime);
   }
 
-  private gameOver() {
-    this.gameState.isRunning = false;
+  public pause() {
+    const paused = pauseGame(this.gameState);
+    if (paused === this.gameState) return;
+    this.gameState = paused;
+    // A press made while paused is for the pause, not the phase it returns to
+    this.launchRequested = false;
+    this.recorder.recordCommand('pause');
+    this.saveProgress();
+    this.audio.suspend();
+    this.publish();
   }
 
-  private render() {
-    // Clear canvas with subtle background
-    this.ctx.fillStyle = '#f8f9fa';
-    this.ctx.fillRect(0, 0, this.config.canvasWidth, this.config.canvasHeight);
+  public resume() {
+    const resumed = resumeGame(this.gameState);
+    if (resumed === this.gameState) return;
+    this.gameState = resumed;
+    this.launchRequested = false;
+    this.recorder.recordCommand('resume');
+    this.audio.resume();
+    this.publish();
+  }
 
-    // Draw blocks with Apple design
-    this.gameState.blocks.forEach(block => {
-      if (!block.destroyed) {
-        this.drawAppleBlock(block);
+  public reset() {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+    }
+    this.looping = false;
+    // Config changes made during the last run apply from here
+    this.updateConfig();
+    const seed = createSeed();
+    this.gameState = createGameState(this.config, this.customLevel, seed);
+    this.previousState = this.gameState;
+    this.recorder = new InputRecorder(seed, this.config, this.customLevel);
+    this.snapshots = [];
+    this.ghost = null;
+    this.accumulator = 0;
+    this.launchRequested = false;
+    this.combo = 0;
+    this.effects.clear();
+    this.audio.stopMusic();
+    this.discardSavedGame();
+    this.render();
+    this.startIdleGamepadPolling();
+    this.publish();
+  }
+
+  public getConfig(): GameConfig {
+    return this.config;
+  }
+
+  /**
+   * Change single tuning values. Before a run has started they apply at
+   * once; otherwise from the next run, so a run is played on one config
+   * from start to finish.
+   */
+  public setConfig(overrides: Partial<GameTuning>) {
+    this.tuning = { ...this.tuning, ...overrides };
+    if (this.gameState.phase === 'title') {
+      this.updateConfig();
+      this.gameState = createGameState(this.config, this.customLevel, this.gameState.seed);
+      this.previousState = this.gameState;
+      this.recorder = new InputRecorder(this.gameState.seed, this.config, this.customLevel);
+      this.snapshots = [];
+      if (!this.looping) {
+        this.render();
       }
-    });
-
-    // Draw paddle with Apple design
-    this.drawApplePaddle(this.gameState.paddle);
-
-    // Draw ball with Apple design
-    this.drawAppleBall(this.gameState.ball);
-
-    // Draw UI
-    this.drawUI();
-  }
-
-  private drawAppleBlock(block: Block) {
-    const ctx = this.ctx;
-    const cornerRadius = 8;
-
-    // Drop shadow
-    ctx.save();
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
-    ctx.shadowBlur = 8;
-    ctx.shadowOffsetY = 2;
-
-    // Main block with gradient
-    const gradient = ctx.createLinearGradient(
-      block.position.x,
-      block.position.y,
-      block.position.x,
-      block.position.y + block.height
-    );
-
-    // Apple-inspired color palette
-    const appleColors = {
-      '#ff6b6b': { start: '#ff6b6b', end: '#ee5a24' },
-      '#feca57': { start: '#feca57', end: '#ff9f43' },
-      '#48cae4': { start: '#48cae4', end: '#0077b6' },
-      '#06ffa5': { start: '#06ffa5', end: '#00d4aa' },
-      '#ff9ff3': { start: '#ff9ff3', end: '#f368e0' },
-      '#f38ba8': { start: '#f38ba8', end: '#e55381' },
-      '#a6e3a1': { start: '#a6e3a1', end: '#74c69d' },
-      '#fab387': { start: '#fab387', end: '#f79256' }
-    };
-
-    const colorMap = appleColors[block.color as keyof typeof appleColors] ||
-                     { start: block.color, end: block.color };
-
-    gradient.addColorStop(0, colorMap.start);
-    gradient.addColorStop(1, colorMap.end);
-    ctx.fillStyle = gradient;
-
-    // Draw rounded rectangle
-    this.drawRoundedRect(
-      block.position.x,
-      block.position.y,
-      block.width,
-      block.height,
-      cornerRadius
-    );
-
-    ctx.restore();
-
-    // Subtle inner highlight
-    ctx.save();
-    const highlightGradient = ctx.createLinearGradient(
-      block.position.x,
-      block.position.y,
-      block.position.x,
-      block.position.y + block.height / 2
-    );
-    highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.3)');
-    highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-    ctx.fillStyle = highlightGradient;
-    this.drawRoundedRect(
-      block.position.x,
-      block.position.y,
-      block.width,
-      block.height / 2,
-      cornerRadius
-    );
-    ctx.restore();
-  }
-
-  private drawApplePaddle(paddle: Paddle) {
-    const ctx = this.ctx;
-    const cornerRadius = 12;
-
-    // Drop shadow
-    ctx.save();
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
-    ctx.shadowBlur = 12;
-    ctx.shadowOffsetY = 4;
-
-    // Gradient from Apple's design language
-    const gradient = ctx.createLinearGradient(
-      paddle.position.x,
-      paddle.position.y,
-      paddle.position.x,
-      paddle.position.y + paddle.height
-    );
-    gradient.addColorStop(0, '#007AFF');
-    gradient.addColorStop(1, '#0056CC');
-
-    ctx.fillStyle = gradient;
-    this.drawRoundedRect(
-      paddle.position.x,
-      paddle.position.y,
-      paddle.width,
-      paddle.height,
-      cornerRadius
-    );
-
-    ctx.restore();
-
-    // Inner highlight
-    ctx.save();
-    const highlightGradient = ctx.createLinearGradient(
-      paddle.position.x,
-      paddle.position.y,
-      paddle.position.x,
-      paddle.position.y + paddle.height / 2
-    );
-    highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.4)');
-    highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-    ctx.fillStyle = highlightGradient;
-    this.drawRoundedRect(
-      paddle.position.x,
-      paddle.position.y,
-      paddle.width,
-      paddle.height / 2,
-      cornerRadius
-    );
-    ctx.restore();
-  }
-
-  private drawAppleBall(ball: Ball) {
-    const ctx = this.ctx;
-
-    // Drop shadow
-    ctx.save();
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.15)';
-    ctx.shadowBlur = 10;
-    ctx.shadowOffsetY = 3;
-
-    // Radial gradient for 3D effect
-    const gradient = ctx.createRadialGradient(
-      ball.position.x - ball.radius / 3,
-      ball.position.y - ball.radius / 3,
-      0,
-      ball.position.x,
-      ball.position.y,
-      ball.radius
-    );
-    gradient.addColorStop(0, '#ffffff');
-    gradient.addColorStop(0.3, '#f0f0f0');
-    gradient.addColorStop(1, '#d0d0d0');
-
-    ctx.fillStyle = gradient;
-    ctx.beginPath();
-    ctx.arc(ball.position.x, ball.position.y, ball.radius, 0, Math.PI * 2);
-    ctx.fill();
-
-    ctx.restore();
-
-    // Subtle rim
-    ctx.strokeStyle = 'rgba(0, 0, 0, 0.1)';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.arc(ball.position.x, ball.position.y, ball.radius - 0.5, 0, Math.PI * 2);
-    ctx.stroke();
-  }
-
-  private drawRoundedRect(x: number, y: number, width: number, height: number, radius: number) {
-    const ctx = this.ctx;
-    ctx.beginPath();
-    ctx.moveTo(x + radius, y);
-    ctx.lineTo(x + width - radius, y);
-    ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
-    ctx.lineTo(x + width, y + height - radius);
-    ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
-    ctx.lineTo(x + radius, y + height);
-    ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
-    ctx.lineTo(x, y + radius);
-    ctx.quadraticCurveTo(x, y, x + radius, y);
-    ctx.closePath();
-    ctx.fill();
-  }
-
-  private drawUI() {
-    const ctx = this.ctx;
-
-    // Apple-style UI cards
-    ctx.save();
-
-    // Score card
-    this.drawUICard(10, 10, 80, 35, `${this.gameState.score}`, 'Score');
-
-    // Lives card
-    this.drawUICard(10, 55, 80, 35, `${this.gameState.lives}`, 'Lives');
-
-    // Level card
-    this.drawUICard(this.config.canvasWidth - 90, 10, 80, 35, `${this.gameState.level}`, 'Level');
-
-    ctx.restore();
-
-    // Game states with Apple-style overlays
-    if (!this.gameState.isRunning && this.gameState.lives > 0) {
-      this.drawAppleOverlay(
-        'Ready to Play?',
-        'Tap to start • Move with touch or keys',
-        '#007AFF'
-      );
-    }
-
-    if (this.gameState.lives <= 0) {
-      this.drawAppleOverlay(
-        'Game Over',
-        `Final Score: ${this.gameState.score}`,
-        '#FF3B30'
-      );
-    }
-
-    if (this.gameState.isPaused) {
-      this.drawAppleOverlay(
-        'Paused',
-        'Tap to continue',
-        '#8E8E93'
-      );
     }
+    this.publish();
   }
 
-  private drawUICard(x: number, y: number, width: number, height: number, value: string, label: string) {
-    const ctx = this.ctx;
+  public getDifficulty(): DifficultyId {
+    return this.tuning.difficulty;
+  }
 
-    // Card background with blur effect (simplified)
-    ctx.save();
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
-    ctx.shadowBlur = 8;
-    ctx.shadowOffsetY = 2;
+  // Switches to the preset's values, like `setConfig`, and is remembered for later visits
+  public setDifficulty(difficulty: DifficultyId) {
+    saveDifficulty(difficulty);
+    this.setConfig(difficultyTuning(difficulty));
+  }
 
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
-    this.drawRoundedRect(x, y, width, height, 8);
+  public getBindings(): InputBindings {
+    return this.input.currentBindings;
+  }
 
-    ctx.restore();
+  // Applies at once; anything held under the old bindings is released
+  public setBindings(bindings: InputBindings) {
+    this.input.setBindings(bindings);
+    this.updateLaunchHint();
+    if (!this.looping) {
+      this.render();
+    }
+    this.publish();
+  }
 
-    // Value text
-    ctx.fillStyle = '#1D1D1F';
-    ctx.font = 'bold 16px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
-    ctx.textAlign = 'center';
-    ctx.fillText(value, x + width / 2, y + height / 2);
+  // On-screen prompts name the player's own launch key
+  private updateLaunchHint() {
+    const key = this.input.currentBindings.launch.find(binding => binding.device === 'keyboard');
+    this.renderer.setLaunchHint(key ? `Tap or press ${describeBinding(key)}` : 'Tap');
+  }
 
-    // Label text
-    ctx.fillStyle = '#8E8E93';
-    ctx.font = '10px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
-    ctx.fillText(label, x + width / 2, y + height - 5);
+  public getAudioSettings(): AudioSettings {
+    return this.audio.currentSettings;
+  }
 
-    ctx.textAlign = 'left';
+  // Applies at once and is remembered for later visits
+  public setAudioSettings(settings: AudioSettings) {
+    this.audio.setSettings(settings);
+    saveAudioSettings(settings);
+    this.publish();
   }
 
-  private drawAppleOverlay(title: string, subtitle: string, accentColor: string) {
-    const ctx = this.ctx;
-    const centerX = this.config.canvasWidth / 2;
-    const centerY = this.config.canvasHeight / 2;
+  public getThemePreference(): ThemePreference {
+    return this.themePreference;
+  }
 
-    // Backdrop blur effect (simplified)
-    ctx.save();
-    ctx.fillStyle = 'rgba(248, 249, 250, 0.95)';
-    ctx.fillRect(0, 0, this.config.canvasWidth, this.config.canvasHeight);
+  // Applies at once, to the canvas and the page, and is remembered for later visits
+  public setThemePreference(preference: ThemePreference) {
+    this.themePreference = preference;
+    saveThemePreference(preference);
+    this.applyTheme();
+    this.publish();
+  }
 
-    // Main card
-    const cardWidth = Math.min(300, this.config.canvasWidth - 40);
-    const cardHeight = 120;
-    const cardX = centerX - cardWidth / 2;
-    const cardY = centerY - cardHeight / 2;
+  private applyTheme() {
+    this.theme = currentTheme(this.themePreference);
+    this.renderer.setTheme(this.theme);
+    applyPageTheme(this.theme);
+    // A running loop redraws on its next frame
+    if (!this.looping) {
+      this.render();
+    }
+  }
 
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
-    ctx.shadowBlur = 20;
-    ctx.shadowOffsetY = 4;
+  public getAccessibilitySettings(): AccessibilitySettings {
+    return this.accessibility;
+  }
 
-    ctx.fillStyle = '#ffffff';
-    this.drawRoundedRect(cardX, cardY, cardWidth, cardHeight, 16);
+  // Applies at once and is remembered for later visits
+  public setAccessibilitySettings(settings: AccessibilitySettings) {
+    this.accessibility = settings;
+    saveAccessibilitySettings(settings);
+    this.renderer.setBrickStyle(settings.brickPalette, settings.brickGlyphs);
+    this.applyMotion();
+    if (!this.looping) {
+      this.render();
+    }
+    this.publish();
+  }
 
-    ctx.restore();
+  private applyMotion() {
+    const systemPrefersReduced = window.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+    this.effects.setEnabled(!resolveReducedMotion(this.accessibility.motion, systemPrefersReduced));
+    // globals.css stills the page's own animations on this attribute
+    if (this.accessibility.motion === 'system') {
+      delete document.documentElement.dataset.motion;
+    } else {
+      document.documentElement.dataset.motion = this.accessibility.motion;
+    }
+  }
 
-    // Title
-    ctx.fillStyle = accentColor;
-    ctx.font = 'bold 24px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
-    ctx.textAlign = 'center';
-    ctx.fillText(title, centerX, centerY - 10);
+  // Display name of the controller in use, or null when none is connected
+  public getGamepadName(): string | null {
+    return this.gamepads.activeName;
+  }
 
-    // Subtitle
-    ctx.fillStyle = '#8E8E93';
-    ctx.font = '16px -apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
-    ctx.fillText(subtitle, centerX, centerY + 20);
+  public hasSavedGame(): boolean {
+    return this.savedGame !== null;
+  }
 
-    ctx.textAlign = 'left';
+  // Set when a saved run had to be thrown away, to tell the player why
+  public getSavedGameNotice(): string | null {
+    return this.savedGameNotice;
   }
 
-  private gameLoop = (currentTime: number) => {
-    const deltaTime = currentTime - this.lastTime;
-    this.lastTime = currentTime;
+  public dismissSavedGameNotice() {
+    this.savedGameNotice = null;
+    this.publish();
+  }
 
-    this.update(deltaTime);
-    this.render();
+  /**
+   * Pick the saved unfinished run back up, paused. The recording carries on
+   * from where it stopped so the whole run can still be replayed.
+   */
+  public continueSavedGame() {
+    const saved = this.savedGame;
+    if (!saved || isRunActive(this.gameState.phase)) return;
+    this.savedGame = null;
 
-    this.animationId = requestAnimationFrame(this.gameLoop);
-  };
+    this.recorder = InputRecorder.resume(saved.recording);
+    // The run carries on with the config it was started on
+    this.tuning = configTuning(saved.config);
+    this.updateConfig();
+    this.snapshots = [];
+    this.ghost = null;
+    this.effects.clear();
+    this.gameState = saved.state;
+    if (this.gameState.phase !== 'paused') {
+      this.pause();
+    }
+    this.audio.suspend();
+    this.audio.startMusic();
+    this.previousState = this.gameState;
+    this.startLoop();
+    this.publish();
+  }
 
-  public start() {
-    if (!this.gameState.isRunning) {
-      this.gameState.isRunning = true;
-      this.gameState.isPaused = false;
-      this.lastTime = performance.now();
-      this.gameLoop(this.lastTime);
+  private discardSavedGame() {
+    if (!this.customLevel) {
+      clearSavedGame();
     }
+    this.savedGame = null;
   }
 
-  public pause() {
-    this.gameState.isPaused = true;
+  /**
+   * Listen for an engine event; returns a function that stops listening.
+   * Listeners run inside the game loop, so they should be quick.
+   */
+  public on<K extends keyof GameEngineEvents>(type: K, listener: (payload: GameEngineEvents[K]) => void): () => void {
+    return this.events.on(type, listener);
   }
 
-  public resume() {
-    this.gameState.isPaused = false;
+  public off<K extends keyof GameEngineEvents>(type: K, listener: (payload: GameEngineEvents[K]) => void) {
+    this.events.off(type, listener);
   }
 
-  public reset() {
-    if (this.animationId) {
-      cancelAnimationFrame(this.animationId);
-    }
-    this.gameState = this.initializeGame();
-    this.render();
+  // The same object until something in it changes, as `useSyncExternalStore` expects
+  public getSnapshot(): EngineSnapshot {
+    return this.snapshot;
   }
 
-  public getGameState(): GameState {
-    return { ...this.gameState };
+  // The current simulation state; states are never changed once made, so this is safe to hold on to
+  public getGameState(): Readonly<GameState> {
+    return this.gameState;
   }
 
-  public updateCanvasSize() {
-    this.updateConfig();
+  // Replace the snapshot and tell subscribers, if anything it covers has changed
+  private publish() {
+    const { game, ...engine } = this.snapshot;
+    const state = this.gameState;
+    const unchanged = game.phase === state.phase &&
+      game.score === state.score && game.lives === state.lives && game.level === state.level &&
+      game.difficulty === state.difficulty && engine.difficulty === this.tuning.difficulty &&
+      game.remainingBlocks === state.remainingBlocks && game.ballCount === state.balls.length &&
+      game.levelSummary === state.levelSummary &&
+      engine.canContinue === (this.savedGame !== null) && engine.savedGameNotice === this.savedGameNotice &&
+      engine.gamepadName === this.gamepads.activeName && engine.bindings === this.input.currentBindings &&
+      engine.audioSettings === this.audio.currentSettings && engine.themePreference === this.themePreference &&
+      engine.accessibility === this.accessibility;
+    if (unchanged) return;
 
-    // Update paddle and ball positions to stay within new bounds
-    if (this.gameState.paddle) {
-      this.gameState.paddle.position.x = Math.min(
-        this.gameState.paddle.position.x,
-        this.config.canvasWidth - this.gameState.paddle.width
-      );
-    }
+    this.snapshot = this.createSnapshot();
+    this.events.emit('stateChanged', this.snapshot);
+  }
+
+  private createSnapshot(): EngineSnapshot {
+    const state = this.gameState;
+    const game: GameSnapshot = Object.freeze({
+      phase: state.phase,
+      score: state.score,
+      lives: state.lives,
+      level: state.level,
+      difficulty: state.difficulty,
+      remainingBlocks: state.remainingBlocks,
+      ballCount: state.balls.length,
+      levelSummary: state.levelSummary,
+    });
+    return Object.freeze({
+      game,
+      canContinue: this.savedGame !== null,
+      savedGameNotice: this.savedGameNotice,
+      difficulty: this.tuning.difficulty,
+      gamepadName: this.gamepads.activeName,
+      bindings: this.input.currentBindings,
+      audioSettings: this.audio.currentSettings,
+      themePreference: this.themePreference,
+      accessibility: this.accessibility,
+    });
+  }
 
-    if (this.gameState.ball) {
-      this.gameState.ball.position.x = Math.max(
-        this.gameState.ball.radius,
-        Math.min(this.config.canvasWidth - this.gameState.ball.radius, this.gameState.ball.position.x)
-      );
+  // Inputs of the current run so far, for replaying it exactly
+  public getRecording(): InputRecording {
+    return this.recorder.getRecording();
+  }
+
+  // The current run so far as a seekable replay
+  public getReplay(): ReplayFile {
+    return createReplay(this.recorder.getRecording(), this.snapshots.slice(), this.gameState);
+  }
+
+  // Takes effect from the next start; turning it off hides the ghost at once
+  public setGhostEnabled(enabled: boolean) {
+    this.ghostEnabled = enabled;
+    if (!enabled) {
+      this.ghost = null;
     }
+  }
 
-    // Re-generate blocks for new canvas size
-    if (this.gameState.level) {
-      this.gameState.blocks = this.generateBlocks(this.gameState.level);
+  /**
+   * Call when the canvas changes size on screen, or moves to a screen with a
+   * different pixel ratio. Only the drawing is rescaled: the playfield keeps
+   * its size in simulation units, so the run carries on untouched.
+   */
+  public updateCanvasSize() {
+    this.renderer.setPixelRatio(devicePixelRatio());
+    // Resizing clears the canvas; a running loop redraws on its next frame
+    if (fitCanvasToDisplay(this.canvas) && !this.looping) {
+      this.render();
     }
   }
 
   public destroy() {
+    // Leaving the page in-app (e.g. to watch replays) shouldn't lose the run either
+    this.saveProgress();
     if (this.animationId) {
       cancelAnimationFrame(this.animationId);
     }
+    if (this.gamepadPollId !== undefined) {
+      cancelAnimationFrame(this.gamepadPollId);
+    }
+    this.looping = false;
+    this.audio.destroy();
+    this.events.clear();
 
     // Remove all event listeners
     this.eventListeners.forEach(({ element, event, handler }) => {
@@ -754,4 +911,18 @@ export class GameEngine {
     });
     this.eventListeners = [];
   }
-}
\ No newline at end of file
+}
+
+function isActivationKey(code: string): boolean {
+  return code === 'Space' || code === 'Enter' || code === 'NumpadEnter';
+}
+
+function isButtonTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLButtonElement || target instanceof HTMLAnchorElement ||
+    (target instanceof HTMLElement && target.getAttribute('role') === 'button');
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement || (target instanceof HTMLElement && target.isContentEditable);
+}
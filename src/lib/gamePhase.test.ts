@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GAME_PHASES, canTransition, checkTransition, isRunActive } from '@/lib/gamePhase';
+
+describe('game phases', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows the moves a run makes', () => {
+    expect(canTransition('title', 'serving')).toBe(true);
+    expect(canTransition('serving', 'playing')).toBe(true);
+    expect(canTransition('playing', 'lifeLost')).toBe(true);
+    expect(canTransition('lifeLost', 'serving')).toBe(true);
+    expect(canTransition('playing', 'levelCleared')).toBe(true);
+    expect(canTransition('levelCleared', 'serving')).toBe(true);
+    expect(canTransition('playing', 'gameOver')).toBe(true);
+  });
+
+  it('has no way out of a game over', () => {
+    expect(GAME_PHASES.filter(to => canTransition('gameOver', to))).toEqual([]);
+  });
+
+  it('never pauses the title screen or stays in place', () => {
+    expect(canTransition('title', 'paused')).toBe(false);
+    expect(GAME_PHASES.filter(phase => canTransition(phase, phase))).toEqual([]);
+  });
+
+  it('warns about illegal moves', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(checkTransition('title', 'playing')).toBe(false);
+    expect(warn).toHaveBeenCalledWith('Illegal game phase transition: title → playing');
+    expect(checkTransition('title', 'serving')).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts a run as active between the title screen and game over', () => {
+    expect(GAME_PHASES.filter(isRunActive)).toEqual(['serving', 'playing', 'paused', 'lifeLost', 'levelCleared']);
+  });
+});
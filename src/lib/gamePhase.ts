@@ -0,0 +1,35 @@
+import { GamePhase } from '@/types/game';
+
+export const GAME_PHASES: GamePhase[] = ['title', 'serving', 'playing', 'paused', 'lifeLost', 'levelCleared', 'gameOver'];
+
+// Every phase change the game allows; anything else is a bug
+const TRANSITIONS: Record<GamePhase, readonly GamePhase[]> = {
+  title: ['serving'],
+  serving: ['playing', 'paused'],
+  playing: ['paused', 'lifeLost', 'levelCleared', 'gameOver'],
+  paused: ['serving', 'playing', 'lifeLost', 'levelCleared'],
+  lifeLost: ['serving', 'paused'],
+  levelCleared: ['serving', 'paused'],
+  gameOver: [],
+};
+
+export function canTransition(from: GamePhase, to: GamePhase): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether moving from `from` to `to` is allowed. Illegal moves are logged
+ * in development, since the callers that make them have a bug.
+ */
+export function checkTransition(from: GamePhase, to: GamePhase): boolean {
+  if (canTransition(from, to)) return true;
+  if (process.env.NODE_ENV !== 'production') {
+    console.warn(`Illegal game phase transition: ${from} → ${to}`);
+  }
+  return false;
+}
+
+// A run has been started and isn't over yet
+export function isRunActive(phase: GamePhase): boolean {
+  return phase !== 'title' && phase !== 'gameOver';
+}
@@ -0,0 +1,74 @@
+// Horizontal axis of the left stick in the browser's "standard" gamepad mapping
+const LEFT_STICK_X = 0;
+
+// Stick travel ignored around the center, so a worn stick doesn't drift the paddle
+export const STICK_DEADZONE = 0.2;
+
+export interface GamepadReading {
+  buttons: boolean[]; // pressed state by standard mapping index
+  stickX: number; // left stick in [-1, 1], 0 inside the deadzone
+}
+
+/**
+ * Map a stick axis to [-1, 1] with a deadzone, rescaled so movement starts
+ * from zero at the edge of the deadzone instead of jumping.
+ */
+export function applyDeadzone(value: number, deadzone = STICK_DEADZONE): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+}
+
+// "Xbox 360 Controller (XInput STANDARD GAMEPAD)" -> "Xbox 360 Controller"
+export function describeGamepad(id: string): string {
+  const name = id.replace(/\s*\(.*\)\s*$/, '').replace(/^[0-9a-f]{4}-[0-9a-f]{4}-/i, '').trim();
+  return name || 'Controller';
+}
+
+/**
+ * Follows the controller in use across connects and disconnects and reads
+ * its raw state; `InputMapper` turns that into actions. The most recently
+ * connected pad wins; when it goes away the tracker falls back to any other
+ * one still connected.
+ */
+export class GamepadTracker {
+  private index: number | null = null;
+  private name: string | null = null;
+
+  // Display name of the active controller, or null without one
+  public get activeName(): string | null {
+    return this.name;
+  }
+
+  public connect(gamepad: Gamepad) {
+    this.index = gamepad.index;
+    this.name = describeGamepad(gamepad.id);
+  }
+
+  public disconnect(gamepad: Gamepad) {
+    if (gamepad.index !== this.index) return;
+    this.index = null;
+    this.name = null;
+
+    const other = getGamepads().find(pad => pad.index !== gamepad.index);
+    if (other) {
+      this.connect(other);
+    }
+  }
+
+  public poll(): GamepadReading | null {
+    if (this.index === null) return null;
+    const gamepad = getGamepads().find(pad => pad.index === this.index);
+    if (!gamepad) return null;
+
+    return {
+      buttons: gamepad.buttons.map(button => button.pressed),
+      stickX: applyDeadzone(gamepad.axes[LEFT_STICK_X] ?? 0),
+    };
+  }
+}
+
+function getGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+}
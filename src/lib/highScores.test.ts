@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FinishedRun, HighScoreEntry } from '@/types/highScore';
+import {
+  HIGH_SCORE_LIMIT,
+  addHighScore,
+  cleanName,
+  clearHighScores,
+  findRank,
+  getHighScores,
+  migrateTable,
+} from '@/lib/highScores';
+
+// Node has no IndexedDB, so the tables land in this stand-in for localStorage
+const storage = new Map<string, string>();
+vi.stubGlobal('window', {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+});
+
+function run(score: number): FinishedRun {
+  return { score, level: 1, date: '2026-01-01T00:00:00.000Z', duration: 60 };
+}
+
+function entries(...scores: number[]): HighScoreEntry[] {
+  return scores.map((score, i) => ({ ...run(score), id: `${i}`, name: 'Player' }));
+}
+
+describe('findRank', () => {
+  it('places a score below the ties already in the table', () => {
+    expect(findRank(entries(300, 200, 100), 200)).toBe(2);
+    expect(findRank(entries(300, 200, 100), 50)).toBe(3);
+  });
+
+  it('leaves out zero scores and scores below a full table', () => {
+    expect(findRank([], 0)).toBeNull();
+    const full = entries(...Array.from({ length: HIGH_SCORE_LIMIT }, (_, i) => 1000 - i * 10));
+    expect(findRank(full, 900)).toBeNull();
+    expect(findRank(full, 955)).toBe(5);
+  });
+});
+
+describe('high-score tables', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('keeps the best runs in order, up to the limit', async () => {
+    for (let score = 10; score <= 120; score += 10) {
+      await addHighScore('normal', run(score), 'Ada');
+    }
+    const table = await getHighScores('normal');
+    expect(table.map(entry => entry.score)).toEqual([120, 110, 100, 90, 80, 70, 60, 50, 40, 30]);
+  });
+
+  it('returns the new entry, or null if the run did not make the table', async () => {
+    const { entry } = await addHighScore('normal', run(100), '  Grace   Hopper  ');
+    expect(entry).toMatchObject({ score: 100, name: 'Grace Hopper' });
+    expect((await addHighScore('normal', run(0), 'Nobody')).entry).toBeNull();
+  });
+
+  it('keeps a separate table for each difficulty', async () => {
+    await addHighScore('casual', run(500), 'Casual');
+    await addHighScore('insane', run(50), 'Insane');
+    expect((await getHighScores('casual')).map(entry => entry.name)).toEqual(['Casual']);
+    expect((await getHighScores('insane')).map(entry => entry.name)).toEqual(['Insane']);
+    expect(await getHighScores('normal')).toEqual([]);
+
+    await clearHighScores('casual');
+    expect(await getHighScores('casual')).toEqual([]);
+    expect(await getHighScores('insane')).toHaveLength(1);
+  });
+
+  it('reads a corrupted table as empty', async () => {
+    storage.set('bricks-and-balls:high-scores:hard', '{not json');
+    expect(await getHighScores('hard')).toEqual([]);
+  });
+});
+
+describe('migrateTable', () => {
+  it('resets tables it cannot read or that a newer version wrote', () => {
+    expect(migrateTable(null)).toEqual([]);
+    expect(migrateTable({ version: 99, entries: entries(100) })).toEqual([]);
+    expect(migrateTable({ version: 1, entries: 'nope' })).toEqual([]);
+  });
+
+  it('repairs entries that still have a score and drops the rest', () => {
+    const table = migrateTable({ version: 1, entries: [{ score: 12.7, level: 0, name: 5 }, { name: 'No score' }, entries(40)[0]] });
+    expect(table).toHaveLength(2);
+    expect(table[0]).toMatchObject({ score: 40 });
+    expect(table[1]).toMatchObject({ score: 12, level: 1, name: 'Player', date: new Date(0).toISOString(), duration: 0 });
+  });
+});
+
+describe('cleanName', () => {
+  it('collapses spaces, trims to the limit and falls back to Player', () => {
+    expect(cleanName('  a   b ')).toBe('a b');
+    expect(cleanName('abcdefghijklmnop')).toBe('abcdefghijkl');
+    expect(cleanName('   ')).toBe('Player');
+  });
+});
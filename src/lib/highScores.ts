@@ -0,0 +1,189 @@
+import { DifficultyId } from '@/types/difficulty';
+import { FinishedRun, HighScoreEntry } from '@/types/highScore';
+
+// Entries kept per difficulty
+export const HIGH_SCORE_LIMIT = 10;
+export const MAX_NAME_LENGTH = 12;
+
+// Bump when the stored table changes shape, and teach `migrateTable` the old one
+const SCHEMA_VERSION = 1;
+
+const DATABASE_NAME = 'bricks-and-balls';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'highScores';
+const STORAGE_KEY_PREFIX = 'bricks-and-balls:high-scores:';
+const PLAYER_NAME_KEY = 'bricks-and-balls:player-name';
+
+interface StoredTable {
+  version: number;
+  entries: HighScoreEntry[];
+}
+
+// Where tables live: IndexedDB where it works, localStorage otherwise
+interface TableStore {
+  read(difficulty: DifficultyId): Promise<unknown>;
+  write(difficulty: DifficultyId, table: StoredTable): Promise<void>;
+}
+
+let storePromise: Promise<TableStore> | null = null;
+
+export async function getHighScores(difficulty: DifficultyId): Promise<HighScoreEntry[]> {
+  const store = await getStore();
+  return migrateTable(await store.read(difficulty));
+}
+
+/**
+ * The place a score would take in `entries`, or null if it doesn't make
+ * the table. Ties rank below the scores already there.
+ */
+export function findRank(entries: HighScoreEntry[], score: number): number | null {
+  if (score <= 0) return null;
+  const rank = entries.findIndex(entry => score > entry.score);
+  if (rank !== -1) return rank;
+  return entries.length < HIGH_SCORE_LIMIT ? entries.length : null;
+}
+
+/**
+ * Store a finished run under `name` if it makes the table. Returns the
+ * updated table and the new entry, which is null if it didn't qualify.
+ */
+export async function addHighScore(
+  difficulty: DifficultyId,
+  run: FinishedRun,
+  name: string
+): Promise<{ entries: HighScoreEntry[]; entry: HighScoreEntry | null }> {
+  const store = await getStore();
+  const entries = migrateTable(await store.read(difficulty));
+  const rank = findRank(entries, run.score);
+  if (rank === null) return { entries, entry: null };
+
+  const entry: HighScoreEntry = { ...run, id: createId(), name: cleanName(name) };
+  const updated = [...entries.slice(0, rank), entry, ...entries.slice(rank)].slice(0, HIGH_SCORE_LIMIT);
+  await store.write(difficulty, { version: SCHEMA_VERSION, entries: updated });
+  return { entries: updated, entry };
+}
+
+export async function clearHighScores(difficulty: DifficultyId) {
+  const store = await getStore();
+  await store.write(difficulty, { version: SCHEMA_VERSION, entries: [] });
+}
+
+// The name used for the last entry, to prefill the next one
+export function getLastPlayerName(): string {
+  try {
+    return window.localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function setLastPlayerName(name: string) {
+  try {
+    window.localStorage.setItem(PLAYER_NAME_KEY, cleanName(name));
+  } catch {
+    // Not remembering the name is fine
+  }
+}
+
+export function cleanName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH) || 'Player';
+}
+
+/**
+ * Bring a stored table into the current shape. Anything unreadable, or
+ * written by a newer version, resets to an empty table; entries from older
+ * versions are kept wherever they still have a score.
+ */
+export function migrateTable(raw: unknown): HighScoreEntry[] {
+  if (typeof raw !== 'object' || raw === null) return [];
+
+  const table = raw as Partial<StoredTable>;
+  if (typeof table.version !== 'number' || table.version > SCHEMA_VERSION || !Array.isArray(table.entries)) {
+    return [];
+  }
+
+  return table.entries
+    .map(readEntry)
+    .filter((entry): entry is HighScoreEntry => entry !== null)
+    .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+    .slice(0, HIGH_SCORE_LIMIT);
+}
+
+function readEntry(value: unknown): HighScoreEntry | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const entry = value as Partial<Record<keyof HighScoreEntry, unknown>>;
+  if (typeof entry.score !== 'number' || !Number.isFinite(entry.score) || entry.score < 0) return null;
+
+  const date = typeof entry.date === 'string' && !Number.isNaN(Date.parse(entry.date))
+    ? entry.date
+    : new Date(0).toISOString();
+  return {
+    id: typeof entry.id === 'string' ? entry.id : createId(),
+    name: cleanName(typeof entry.name === 'string' ? entry.name : ''),
+    score: Math.floor(entry.score),
+    level: typeof entry.level === 'number' && entry.level >= 1 ? Math.floor(entry.level) : 1,
+    date,
+    duration: typeof entry.duration === 'number' && entry.duration >= 0 ? entry.duration : 0,
+  };
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function getStore(): Promise<TableStore> {
+  // Private browsing and some embedded browsers refuse IndexedDB
+  storePromise ??= openDatabase().then(indexedDbStore, () => localStorageStore);
+  return storePromise;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another tab'));
+  });
+}
+
+function indexedDbStore(db: IDBDatabase): TableStore {
+  return {
+    read: difficulty => new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(difficulty);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }),
+    write: (difficulty, table) => new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(table, difficulty);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    }),
+  };
+}
+
+const localStorageStore: TableStore = {
+  read: async difficulty => {
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY_PREFIX + difficulty);
+      return raw ? JSON.parse(raw) : undefined;
+    } catch {
+      // Corrupted JSON reads as an empty table and is replaced on the next write
+      return undefined;
+    }
+  },
+  write: async (difficulty, table) => {
+    window.localStorage.setItem(STORAGE_KEY_PREFIX + difficulty, JSON.stringify(table));
+  },
+};
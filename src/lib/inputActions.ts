@@ -0,0 +1,140 @@
+import { Controls } from '@/types/game';
+import { InputAction, InputBindings } from '@/types/input';
+import { INPUT_ACTIONS, bindingId } from '@/lib/inputBindings';
+
+/**
+ * The input-action layer. Devices report what they see (a key went down,
+ * the controller's buttons, where the pointer is) and the player's bindings
+ * turn that into actions; the engine only ever reads the actions.
+ */
+export class InputMapper {
+  private bindings!: InputBindings;
+  private actionsById = new Map<string, InputAction>();
+  // Bindings currently held down, per action
+  private held = new Map<InputAction, Set<string>>();
+  // Controller buttons as of the last update; null until a baseline is read
+  private gamepadButtons: boolean[] | null = null;
+  private pointerX?: number;
+  private moveAxis?: number;
+
+  constructor(bindings: InputBindings) {
+    this.setBindings(bindings);
+  }
+
+  public get currentBindings(): InputBindings {
+    return this.bindings;
+  }
+
+  public setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+    this.actionsById.clear();
+    for (const action of INPUT_ACTIONS) {
+      for (const binding of bindings[action]) {
+        this.actionsById.set(bindingId(binding), action);
+      }
+    }
+    this.releaseAll();
+  }
+
+  /**
+   * A key went down. Returns its action if this started holding it, so key
+   * repeat doesn't count as another press.
+   */
+  public keyDown(code: string): InputAction | null {
+    return this.press(`keyboard:${code}`);
+  }
+
+  public keyUp(code: string) {
+    this.release(`keyboard:${code}`);
+  }
+
+  // Whether a key is bound to anything, e.g. to keep it from scrolling the page
+  public isBoundKey(code: string): boolean {
+    return this.actionsById.has(`keyboard:${code}`);
+  }
+
+  /**
+   * Feed the controller's state. Returns the actions whose buttons went
+   * down since the last update.
+   */
+  public updateGamepad(buttons: boolean[], stickX: number): InputAction[] {
+    const previous = this.gamepadButtons ?? buttons;
+    const pressed: InputAction[] = [];
+    for (let i = 0; i < Math.max(buttons.length, previous.length); i++) {
+      const id = `gamepad:${i}`;
+      if (buttons[i] && !previous[i]) {
+        const action = this.press(id);
+        if (action) pressed.push(action);
+      } else if (!buttons[i] && previous[i]) {
+        this.release(id);
+      }
+    }
+    this.gamepadButtons = buttons;
+
+    this.moveAxis = stickX === 0 ? undefined : stickX;
+    if (this.moveAxis !== undefined) {
+      this.pointerX = undefined;
+    }
+    return pressed;
+  }
+
+  // A different controller (or none) is in use; buttons already down on it don't count as presses
+  public resetGamepad() {
+    for (const ids of this.held.values()) {
+      for (const id of ids) {
+        if (id.startsWith('gamepad:')) ids.delete(id);
+      }
+    }
+    this.gamepadButtons = null;
+    this.moveAxis = undefined;
+  }
+
+  public setPointer(x: number | undefined) {
+    this.pointerX = x;
+  }
+
+  // Forget everything held, e.g. when the window loses focus and key-ups would be missed
+  public releaseAll() {
+    for (const action of INPUT_ACTIONS) {
+      this.held.set(action, new Set());
+    }
+    this.gamepadButtons = null;
+  }
+
+  public isHeld(action: InputAction): boolean {
+    return (this.held.get(action)?.size ?? 0) > 0;
+  }
+
+  // Held movement only; launch is a press, which the engine passes on for a single tick
+  public getControls(): Controls {
+    const controls: Controls = {
+      moveLeft: this.isHeld('moveLeft'),
+      moveRight: this.isHeld('moveRight'),
+    };
+    if (this.pointerX !== undefined) controls.pointerX = this.pointerX;
+    if (this.moveAxis !== undefined) controls.moveAxis = this.moveAxis;
+    return controls;
+  }
+
+  private press(id: string): InputAction | null {
+    const action = this.actionsById.get(id);
+    if (!action) return null;
+
+    const ids = this.held.get(action)!;
+    if (ids.has(id)) return null;
+    ids.add(id);
+
+    if (action === 'moveLeft' || action === 'moveRight') {
+      // Keys or buttons take over from a mouse resting on the canvas
+      this.pointerX = undefined;
+    }
+    return action;
+  }
+
+  private release(id: string) {
+    const action = this.actionsById.get(id);
+    if (action) {
+      this.held.get(action)!.delete(id);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputBinding } from '@/types/input';
+import {
+  DEFAULT_BINDINGS,
+  addBinding,
+  describeBinding,
+  findConflict,
+  loadBindings,
+  removeBinding,
+  saveBindings,
+} from '@/lib/inputBindings';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('window', {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  },
+});
+
+const keyA: InputBinding = { device: 'keyboard', code: 'KeyA' };
+const padStart: InputBinding = { device: 'gamepad', button: 9 };
+
+describe('binding conflicts', () => {
+  it('finds the action already using a key or button', () => {
+    expect(findConflict(DEFAULT_BINDINGS, keyA)).toBe('moveLeft');
+    expect(findConflict(DEFAULT_BINDINGS, padStart)).toBe('pause');
+    expect(findConflict(DEFAULT_BINDINGS, { device: 'keyboard', code: 'KeyQ' })).toBeNull();
+  });
+
+  it('ignores the action being rebound', () => {
+    expect(findConflict(DEFAULT_BINDINGS, keyA, 'moveLeft')).toBeNull();
+  });
+
+  it('tells keyboard keys and gamepad buttons apart', () => {
+    expect(findConflict(DEFAULT_BINDINGS, { device: 'gamepad', button: 14 })).toBe('moveLeft');
+    expect(findConflict(DEFAULT_BINDINGS, { device: 'keyboard', code: '14' })).toBeNull();
+  });
+
+  it('takes a binding away from the action that had it', () => {
+    const next = addBinding(DEFAULT_BINDINGS, 'launch', keyA);
+    expect(next.launch).toContainEqual(keyA);
+    expect(next.moveLeft).not.toContainEqual(keyA);
+    expect(findConflict(next, keyA, 'launch')).toBeNull();
+    expect(DEFAULT_BINDINGS.moveLeft).toContainEqual(keyA);
+  });
+
+  it('adds a binding an action already has only once', () => {
+    expect(addBinding(DEFAULT_BINDINGS, 'moveLeft', keyA).moveLeft.filter(b => b.device === 'keyboard' && b.code === 'KeyA')).toHaveLength(1);
+  });
+
+  it('removes a binding from one action only', () => {
+    const next = removeBinding(DEFAULT_BINDINGS, 'moveLeft', keyA);
+    expect(next.moveLeft).not.toContainEqual(keyA);
+    expect(next.moveRight).toEqual(DEFAULT_BINDINGS.moveRight);
+  });
+});
+
+describe('describeBinding', () => {
+  it('gives short labels', () => {
+    expect(describeBinding({ device: 'keyboard', code: 'ArrowLeft' })).toBe('←');
+    expect(describeBinding(keyA)).toBe('A');
+    expect(describeBinding({ device: 'keyboard', code: 'ShiftLeft' })).toBe('Shift Left');
+    expect(describeBinding(padStart)).toBe('Pad Start');
+    expect(describeBinding({ device: 'gamepad', button: 30 })).toBe('Pad button 30');
+  });
+});
+
+describe('stored bindings', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('reads back what was saved', () => {
+    const bindings = addBinding(DEFAULT_BINDINGS, 'pause', { device: 'keyboard', code: 'KeyP' });
+    saveBindings(bindings);
+    expect(loadBindings()).toEqual(bindings);
+  });
+
+  it('falls back to the defaults for anything unreadable', () => {
+    storage.set('bricks-and-balls:bindings', '{');
+    expect(loadBindings()).toBe(DEFAULT_BINDINGS);
+    storage.set('bricks-and-balls:bindings', JSON.stringify({ version: 1, bindings: { pause: [{ device: 'mouse' }] } }));
+    expect(loadBindings()).toBe(DEFAULT_BINDINGS);
+  });
+
+  it('gives actions missing from a stored set their defaults', () => {
+    storage.set('bricks-and-balls:bindings', JSON.stringify({ version: 1, bindings: { pause: [keyA] } }));
+    expect(loadBindings()).toEqual({ ...DEFAULT_BINDINGS, pause: [keyA] });
+  });
+});
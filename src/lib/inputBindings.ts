@@ -0,0 +1,115 @@
+import { InputAction, InputBinding, InputBindings } from '@/types/input';
+
+export const INPUT_ACTIONS: InputAction[] = ['moveLeft', 'moveRight', 'launch', 'pause', 'mute'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  launch: 'Launch ball',
+  pause: 'Start / pause',
+  mute: 'Mute sound',
+};
+
+// Buttons of the standard gamepad mapping, by index
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Select', 'Start',
+  'Left stick', 'Right stick', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home',
+];
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  moveLeft: [{ device: 'keyboard', code: 'ArrowLeft' }, { device: 'keyboard', code: 'KeyA' }, { device: 'gamepad', button: 14 }],
+  moveRight: [{ device: 'keyboard', code: 'ArrowRight' }, { device: 'keyboard', code: 'KeyD' }, { device: 'gamepad', button: 15 }],
+  launch: [{ device: 'keyboard', code: 'ArrowUp' }, { device: 'keyboard', code: 'KeyW' }, { device: 'gamepad', button: 0 }],
+  pause: [{ device: 'keyboard', code: 'Space' }, { device: 'gamepad', button: 9 }],
+  mute: [{ device: 'keyboard', code: 'KeyM' }],
+};
+
+const STORAGE_KEY = 'bricks-and-balls:bindings';
+const BINDINGS_VERSION = 1;
+
+// Stable identity of a binding, e.g. 'keyboard:KeyA' or 'gamepad:0'
+export function bindingId(binding: InputBinding): string {
+  return binding.device === 'keyboard' ? `keyboard:${binding.code}` : `gamepad:${binding.button}`;
+}
+
+// Short label for a binding, e.g. '←', 'A' or 'Pad Start'
+export function describeBinding(binding: InputBinding): string {
+  if (binding.device === 'gamepad') {
+    return `Pad ${GAMEPAD_BUTTON_NAMES[binding.button] ?? `button ${binding.button}`}`;
+  }
+
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  const { code } = binding;
+  if (arrows[code]) return arrows[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code.replace(/(Left|Right)$/, ' $1');
+}
+
+// The action other than `except` that already uses `binding`, if any
+export function findConflict(bindings: InputBindings, binding: InputBinding, except?: InputAction): InputAction | null {
+  const id = bindingId(binding);
+  return INPUT_ACTIONS.find(action => action !== except && bindings[action].some(b => bindingId(b) === id)) ?? null;
+}
+
+/**
+ * Add `binding` to `action`. It is taken away from any other action that
+ * had it, so one key never does two things; check `findConflict` first to
+ * ask the player.
+ */
+export function addBinding(bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings {
+  const id = bindingId(binding);
+  const next = { ...bindings };
+  for (const other of INPUT_ACTIONS) {
+    next[other] = bindings[other].filter(b => bindingId(b) !== id);
+  }
+  next[action] = [...next[action], binding];
+  return next;
+}
+
+export function removeBinding(bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings {
+  const id = bindingId(binding);
+  return { ...bindings, [action]: bindings[action].filter(b => bindingId(b) !== id) };
+}
+
+// Stored bindings, or the defaults if there are none or they can't be read
+export function loadBindings(): InputBindings {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? parseBindings(JSON.parse(raw)) ?? DEFAULT_BINDINGS : DEFAULT_BINDINGS;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function saveBindings(bindings: InputBindings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: BINDINGS_VERSION, bindings }));
+  } catch {
+    // The bindings still apply for this visit
+  }
+}
+
+function parseBindings(value: unknown): InputBindings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const stored = value as { version?: unknown; bindings?: Record<string, unknown> };
+  if (stored.version !== BINDINGS_VERSION || typeof stored.bindings !== 'object' || stored.bindings === null) return null;
+
+  const bindings = { ...DEFAULT_BINDINGS };
+  for (const action of INPUT_ACTIONS) {
+    const list = stored.bindings[action];
+    // Actions added since the bindings were saved keep their defaults
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || !list.every(isBinding)) return null;
+    bindings[action] = list;
+  }
+  return bindings;
+}
+
+function isBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const binding = value as Record<string, unknown>;
+  return (binding.device === 'keyboard' && typeof binding.code === 'string' && binding.code !== '') ||
+    (binding.device === 'gamepad' && Number.isInteger(binding.button) && (binding.button as number) >= 0);
+}
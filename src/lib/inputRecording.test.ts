@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Controls, GameState } from '@/types/game';
+import { createGameConfig } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { createGameState, pauseGame, resumeGame, startGame, stepSimulation } from '@/lib/simulation';
+import {
+  InputRecorder,
+  RecordingFormatError,
+  RecordingPlayer,
+  parseRecording,
+  playRecording,
+  serializeRecording,
+} from '@/lib/inputRecording';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+
+// Follows the ball a little off center, so it bounces around and breaks bricks
+function controlsFor(state: GameState, tick: number): Controls {
+  const ball = state.balls[0];
+  return {
+    moveLeft: false,
+    moveRight: false,
+    pointerX: ball ? ball.position.x + Math.sin(tick / 90) * 30 : undefined,
+    launch: tick % 240 === 0,
+  };
+}
+
+// Play a run the way the engine does, recording it along the way
+function recordRun(seed: number, ticks: number) {
+  const recorder = new InputRecorder(seed, config);
+  let state = startGame(createGameState(config, undefined, seed));
+  recorder.recordCommand('start');
+  for (let tick = 0; tick < ticks; tick++) {
+    if (tick === 1000) {
+      state = pauseGame(state);
+      recorder.recordCommand('pause');
+    } else if (tick === 1100) {
+      state = resumeGame(state);
+      recorder.recordCommand('resume');
+    }
+    const controls = controlsFor(state, tick);
+    recorder.recordTick(controls);
+    state = stepSimulation(state, controls, config).state;
+  }
+  return { recording: recorder.getRecording(), state };
+}
+
+describe('recording and replaying a run', () => {
+  it('ends in exactly the same state', () => {
+    const { recording, state } = recordRun(12345, 4000);
+    expect(state.score).toBeGreaterThan(0);
+    expect(playRecording(recording)).toEqual(state);
+  });
+
+  it('survives being written out and read back', () => {
+    const { recording, state } = recordRun(99, 2000);
+    expect(playRecording(parseRecording(serializeRecording(recording)))).toEqual(state);
+  });
+
+  it('picks up from a snapshot taken part-way through', () => {
+    const { recording, state } = recordRun(7, 3000);
+    const first = new RecordingPlayer(recording);
+    while (first.tick < 1500) first.step();
+
+    const second = new RecordingPlayer(recording, first.snapshot());
+    while (!second.finished) second.step();
+    expect(second.state).toEqual(state);
+  });
+
+  it('carries on a resumed recording without a gap', () => {
+    const { recording } = recordRun(3, 500);
+    const recorder = InputRecorder.resume(recording);
+    const idle: Controls = { moveLeft: false, moveRight: false };
+    recorder.recordTick(idle);
+    expect(recorder.ticks).toBe(501);
+    expect(recorder.getRecording().inputs.slice(0, -1)).toEqual(recording.inputs);
+  });
+});
+
+describe('parseRecording', () => {
+  const { recording } = recordRun(1, 10);
+
+  it('rejects files that are not recordings', () => {
+    expect(() => parseRecording('not json')).toThrow(RecordingFormatError);
+    expect(() => parseRecording(JSON.stringify({ ...recording, version: 0 }))).toThrow(/unsupported version/);
+    expect(() => parseRecording(JSON.stringify({ ...recording, seed: -1 }))).toThrow(/seed/);
+  });
+
+  it('rejects inputs and commands out of tick order', () => {
+    const inputs = [[5, 0, null], [2, 0, null]];
+    expect(() => parseRecording(JSON.stringify({ ...recording, inputs }))).toThrow(/inputs/);
+    const commands = [[0, 'start'], [0, 'resize']];
+    expect(() => parseRecording(JSON.stringify({ ...recording, commands }))).toThrow(/commands/);
+  });
+});
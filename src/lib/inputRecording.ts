@@ -0,0 +1,274 @@
+import { Controls, GameConfig, GameState } from '@/types/game';
+import {
+  INPUT_LAUNCH,
+  INPUT_LEFT,
+  INPUT_RIGHT,
+  InputEntry,
+  InputRecording,
+  RECORDING_FORMAT_VERSION,
+  RecordedCommand,
+  ReplaySnapshot,
+} from '@/types/recording';
+import { LevelDefinition } from '@/types/level';
+import { StepResult, createGameState, pauseGame, resumeGame, startGame, stepSimulation } from '@/lib/simulation';
+import { validateLevel } from '@/lib/levels';
+import { isGameConfig } from '@/lib/stateValidation';
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(`Not a valid recording: ${message}`);
+    this.name = 'RecordingFormatError';
+  }
+}
+
+/**
+ * Captures the controls for every tick plus the engine calls between them.
+ * Feed it exactly what the engine feeds the simulation.
+ */
+export class InputRecorder {
+  private recording: InputRecording;
+  private lastButtons = -1;
+  private lastPointerX: number | null = null;
+  private lastMoveAxis: number | undefined = undefined;
+
+  constructor(seed: number, config: GameConfig, level?: LevelDefinition) {
+    this.recording = {
+      version: RECORDING_FORMAT_VERSION,
+      seed,
+      config: { ...config },
+      level,
+      ticks: 0,
+      inputs: [],
+      commands: [],
+    };
+  }
+
+  // Carry on recording a run that was saved part-way through
+  public static resume(recording: InputRecording): InputRecorder {
+    const recorder = new InputRecorder(recording.seed, recording.config, recording.level);
+    recorder.recording = { ...recording, inputs: recording.inputs.slice(), commands: recording.commands.slice() };
+    const last = recording.inputs[recording.inputs.length - 1];
+    if (last) {
+      recorder.lastButtons = last[1];
+      recorder.lastPointerX = last[2];
+      recorder.lastMoveAxis = last[3];
+    }
+    return recorder;
+  }
+
+  // Ticks recorded so far, i.e. the number of the next tick
+  public get ticks(): number {
+    return this.recording.ticks;
+  }
+
+  public recordTick(controls: Controls) {
+    const buttons = packButtons(controls);
+    const pointerX = controls.pointerX ?? null;
+    const { moveAxis } = controls;
+    if (buttons !== this.lastButtons || pointerX !== this.lastPointerX || moveAxis !== this.lastMoveAxis) {
+      this.recording.inputs.push(moveAxis === undefined
+        ? [this.recording.ticks, buttons, pointerX]
+        : [this.recording.ticks, buttons, pointerX, moveAxis]);
+      this.lastButtons = buttons;
+      this.lastPointerX = pointerX;
+      this.lastMoveAxis = moveAxis;
+    }
+    this.recording.ticks++;
+  }
+
+  public recordCommand(command: 'start' | 'pause' | 'resume') {
+    this.recording.commands.push([this.recording.ticks, command]);
+  }
+
+  public getRecording(): InputRecording {
+    return {
+      ...this.recording,
+      inputs: this.recording.inputs.slice(),
+      commands: this.recording.commands.slice(),
+    };
+  }
+}
+
+/**
+ * Steps a recording back through the simulation one tick at a time. Given
+ * the same recording it produces the same states as the original run.
+ * Pass a snapshot taken from that run to start part-way through.
+ */
+export class RecordingPlayer {
+  private recording: InputRecording;
+  private readonly config: GameConfig;
+  private inputIndex = 0;
+  private commandIndex = 0;
+  public state: GameState;
+  public tick = 0;
+
+  constructor(recording: InputRecording, from?: ReplaySnapshot) {
+    this.recording = recording;
+    if (from) {
+      this.config = from.config;
+      this.state = from.state;
+      this.tick = from.tick;
+      // The snapshot already includes the commands for its own tick
+      while (this.commandIndex < recording.commands.length && recording.commands[this.commandIndex][0] <= from.tick) {
+        this.commandIndex++;
+      }
+    } else {
+      this.config = recording.config;
+      this.state = createGameState(recording.config, recording.level, recording.seed);
+    }
+  }
+
+  public get currentConfig(): GameConfig {
+    return this.config;
+  }
+
+  // The state before the next tick with that tick's commands applied, to seek back to later
+  public snapshot(): ReplaySnapshot {
+    this.applyPendingCommands();
+    return { tick: this.tick, config: this.config, state: this.state };
+  }
+
+  public get finished(): boolean {
+    return this.tick >= this.recording.ticks;
+  }
+
+  public step(): StepResult {
+    const { inputs } = this.recording;
+
+    this.applyPendingCommands();
+    while (this.inputIndex + 1 < inputs.length && inputs[this.inputIndex + 1][0] <= this.tick) {
+      this.inputIndex++;
+    }
+
+    const input = inputs[this.inputIndex];
+    const result = stepSimulation(this.state, input ? unpackControls(input) : IDLE_CONTROLS, this.config);
+    this.state = result.state;
+    this.tick++;
+    return result;
+  }
+
+  private applyPendingCommands() {
+    const { commands } = this.recording;
+    while (this.commandIndex < commands.length && commands[this.commandIndex][0] <= this.tick) {
+      this.applyCommand(commands[this.commandIndex++]);
+    }
+  }
+
+  private applyCommand(command: RecordedCommand) {
+    switch (command[1]) {
+      case 'start':
+        this.state = startGame(this.state);
+        break;
+      case 'pause':
+        this.state = pauseGame(this.state);
+        break;
+      case 'resume':
+        this.state = resumeGame(this.state);
+        break;
+    }
+  }
+}
+
+// Replay a whole recording and return the final state
+export function playRecording(recording: InputRecording): GameState {
+  const player = new RecordingPlayer(recording);
+  while (!player.finished) {
+    player.step();
+  }
+  return player.state;
+}
+
+export function serializeRecording(recording: InputRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse a downloaded recording. Throws `RecordingFormatError` if the file
+ * isn't one this version can replay.
+ */
+export function parseRecording(text: string): InputRecording {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new RecordingFormatError('the file is not JSON');
+  }
+
+  if (!isObject(value)) throw new RecordingFormatError('expected a JSON object');
+  if (value.version !== RECORDING_FORMAT_VERSION) {
+    throw new RecordingFormatError(`unsupported version ${JSON.stringify(value.version)} (expected ${RECORDING_FORMAT_VERSION})`);
+  }
+  if (!isUint32(value.seed)) throw new RecordingFormatError('"seed" must be a 32-bit unsigned integer');
+  if (!isGameConfig(value.config)) throw new RecordingFormatError('"config" is missing or incomplete');
+  if (!isTick(value.ticks)) throw new RecordingFormatError('"ticks" must be a whole number');
+  if (!Array.isArray(value.inputs) || !value.inputs.every(isInputEntry) || !isOrdered(value.inputs)) {
+    throw new RecordingFormatError('"inputs" must be a list of [tick, buttons, pointerX, moveAxis?] entries in tick order');
+  }
+  if (!Array.isArray(value.commands) || !value.commands.every(isCommand) || !isOrdered(value.commands)) {
+    throw new RecordingFormatError('"commands" must be a list of engine commands in tick order');
+  }
+
+  let level: LevelDefinition | undefined;
+  if (value.level !== undefined) {
+    try {
+      level = validateLevel(value.level, 'The recorded level');
+    } catch (error) {
+      throw new RecordingFormatError(error instanceof Error ? error.message : 'the recorded level is invalid');
+    }
+  }
+
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    seed: value.seed,
+    config: value.config,
+    level,
+    ticks: value.ticks,
+    inputs: value.inputs,
+    commands: value.commands,
+  };
+}
+
+const IDLE_CONTROLS: Controls = { moveLeft: false, moveRight: false };
+
+function packButtons(controls: Controls): number {
+  return (controls.moveLeft ? INPUT_LEFT : 0) |
+    (controls.moveRight ? INPUT_RIGHT : 0) |
+    (controls.launch ? INPUT_LAUNCH : 0);
+}
+
+function unpackControls([, buttons, pointerX, moveAxis]: InputEntry): Controls {
+  const controls: Controls = {
+    moveLeft: (buttons & INPUT_LEFT) !== 0,
+    moveRight: (buttons & INPUT_RIGHT) !== 0,
+    launch: (buttons & INPUT_LAUNCH) !== 0,
+  };
+  if (pointerX !== null) controls.pointerX = pointerX;
+  if (moveAxis !== undefined) controls.moveAxis = moveAxis;
+  return controls;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUint32(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffffff;
+}
+
+function isTick(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isInputEntry(value: unknown): value is InputEntry {
+  return Array.isArray(value) && (value.length === 3 || (value.length === 4 && Number.isFinite(value[3]))) &&
+    isTick(value[0]) && Number.isInteger(value[1]) && (value[2] === null || Number.isFinite(value[2]));
+}
+
+function isCommand(value: unknown): value is RecordedCommand {
+  if (!Array.isArray(value) || !isTick(value[0])) return false;
+  return value.length === 2 && ['start', 'pause', 'resume'].includes(value[1]);
+}
+
+function isOrdered(entries: Array<[number, ...unknown[]]>): boolean {
+  return entries.every((entry, i) => i === 0 || entry[0] >= entries[i - 1][0]);
+}
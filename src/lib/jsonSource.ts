@@ -0,0 +1,175 @@
+/**
+ * Minimal JSON parser that remembers where every value came from, so
+ * validation errors can point at a line in the original file. Paths use the
+ * usual `bricks[3].color` notation; the root value has the path ''.
+ */
+
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface ParsedJson {
+  value: unknown;
+  locations: Map<string, SourceLocation>;
+}
+
+export class JsonSyntaxError extends Error {
+  location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(`line ${location.line}, column ${location.column}: ${message}`);
+    this.name = 'JsonSyntaxError';
+    this.location = location;
+  }
+}
+
+export function parseJsonWithLocations(text: string): ParsedJson {
+  const locations = new Map<string, SourceLocation>();
+  let index = 0;
+
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const locationAt = (offset: number): SourceLocation => {
+    // Binary search for the last line starting at or before `offset`
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, locationAt(index));
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+
+  const expect = (char: string) => {
+    if (text[index] !== char) {
+      fail(index >= text.length ? `expected '${char}' but the file ended` : `expected '${char}' but found '${text[index]}'`);
+    }
+    index++;
+  };
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (index < text.length && text[index] !== '"') {
+      const char = text[index];
+      if (char === '\n') fail('unterminated string');
+      if (char === '\\') {
+        const escape = text[index + 1];
+        const simple: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+        if (escape in simple) {
+          result += simple[escape];
+          index += 2;
+        } else if (escape === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('invalid unicode escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+        } else {
+          fail(`invalid escape '\\${escape ?? ''}'`);
+        }
+      } else {
+        result += char;
+        index++;
+      }
+    }
+    expect('"');
+    return result;
+  };
+
+  const parseNumber = (): number => {
+    const pattern = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (!match) fail(`unexpected character '${text[index]}'`);
+    index += match![0].length;
+    return Number(match![0]);
+  };
+
+  const parseValue = (path: string): unknown => {
+    skipWhitespace();
+    locations.set(path, locationAt(index));
+
+    const char = text[index];
+    if (char === '{') return parseObject(path);
+    if (char === '[') return parseArray(path);
+    if (char === '"') return parseString();
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber();
+
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(literal, index)) {
+        index += literal.length;
+        return value;
+      }
+    }
+
+    return fail(index >= text.length ? 'unexpected end of file' : `unexpected character '${char}'`);
+  };
+
+  const parseObject = (path: string): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    expect('{');
+    skipWhitespace();
+    if (text[index] === '}') {
+      index++;
+      return result;
+    }
+
+    for (;;) {
+      skipWhitespace();
+      const key = parseString();
+      skipWhitespace();
+      expect(':');
+      result[key] = parseValue(path ? `${path}.${key}` : key);
+      skipWhitespace();
+      if (text[index] === ',') {
+        index++;
+        continue;
+      }
+      expect('}');
+      return result;
+    }
+  };
+
+  const parseArray = (path: string): unknown[] => {
+    const result: unknown[] = [];
+    expect('[');
+    skipWhitespace();
+    if (text[index] === ']') {
+      index++;
+      return result;
+    }
+
+    for (;;) {
+      result.push(parseValue(`${path}[${result.length}]`));
+      skipWhitespace();
+      if (text[index] === ',') {
+        index++;
+        continue;
+      }
+      expect(']');
+      return result;
+    }
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (index < text.length) fail(`unexpected '${text[index]}' after the end of the document`);
+
+  return { value, locations };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Controls, GameState } from '@/types/game';
+import { LEVEL_FORMAT_VERSION } from '@/types/level';
+import { createGameConfig } from '@/lib/difficulty';
+import { NO_DEATH_BONUS, PAR_SECONDS_PER_BRICK, TIME_BONUS_PER_SECOND, createLevelStats, summarizeLevel } from '@/lib/levelBonus';
+import { validateLevel } from '@/lib/levels';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { LEVEL_CLEARED_DURATION, SimulationEvent, cloneGameState, createGameState, startGame, stepSimulation } from '@/lib/simulation';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+const IDLE: Controls = { moveLeft: false, moveRight: false };
+
+describe('summarizeLevel', () => {
+  it('pays for every whole second under par and for keeping every life', () => {
+    const stats = { ...createLevelStats(100, 10), blocksBroken: 10, longestRally: 7 };
+    const par = 10 * PAR_SECONDS_PER_BRICK;
+    expect(summarizeLevel(4, stats, 100 + par - 12.5)).toEqual({
+      level: 4,
+      blocksBroken: 10,
+      time: par - 12.5,
+      livesLost: 0,
+      longestRally: 7,
+      timeBonus: 12 * TIME_BONUS_PER_SECOND,
+      noDeathBonus: NO_DEATH_BONUS,
+    });
+  });
+
+  it('gives no time bonus over par and no no-death bonus after a lost life', () => {
+    const stats = { ...createLevelStats(0, 5), blocksBroken: 5, livesLost: 1 };
+    expect(summarizeLevel(1, stats, 5 * PAR_SECONDS_PER_BRICK + 1)).toMatchObject({ timeBonus: 0, noDeathBonus: 0 });
+  });
+
+  it('sets par from the bricks the level needs, however often regenerating ones break again', () => {
+    const stats = createLevelStats(0, 4);
+    const farmed = summarizeLevel(1, { ...stats, blocksBroken: 40 }, 11);
+    expect(farmed.timeBonus).toBe(summarizeLevel(1, { ...stats, blocksBroken: 4 }, 11).timeBonus);
+    expect(farmed.timeBonus).toBe((4 * PAR_SECONDS_PER_BRICK - 11) * TIME_BONUS_PER_SECOND);
+  });
+});
+
+describe('clearing a level', () => {
+  // One brick right above the ball, which is sent straight at it
+  function clearOneBrick() {
+    const level = validateLevel({ version: LEVEL_FORMAT_VERSION, name: 'One brick', bricks: [{ x: 300, y: 100 }] });
+    const served = startGame(createGameState(config, level, 1));
+    let state: GameState = cloneGameState(stepSimulation(served, { ...IDLE, launch: true }, config).state);
+    state.balls[0].position = { x: 340, y: 300 };
+    state.balls[0].velocity = { x: 0, y: -400 };
+
+    const events: SimulationEvent[] = [];
+    for (let tick = 0; tick < 600 && state.phase === 'playing'; tick++) {
+      const result = stepSimulation(state, IDLE, config);
+      state = result.state;
+      events.push(...result.events);
+    }
+    return { served, state, events };
+  }
+
+  it('adds the bonuses to the score and shows the summary', () => {
+    const { served, state, events } = clearOneBrick();
+    expect(state.phase).toBe('levelCleared');
+    expect(served.levelStats.bricksToClear).toBe(1);
+
+    const summary = state.levelSummary!;
+    expect(summary).toMatchObject({ level: 1, blocksBroken: 1, livesLost: 0, noDeathBonus: NO_DEATH_BONUS });
+    expect(summary.timeBonus).toBe(Math.floor(PAR_SECONDS_PER_BRICK - summary.time) * TIME_BONUS_PER_SECOND);
+    expect(state.score).toBe(10 + summary.timeBonus + summary.noDeathBonus);
+    expect(events).toContainEqual({ type: 'levelCompleted', level: 1, summary });
+  });
+
+  it('waits for a launch after the summary before the next level', () => {
+    let { state } = clearOneBrick();
+    for (let tick = 0; tick < Math.ceil(LEVEL_CLEARED_DURATION * 120) + 60; tick++) {
+      state = stepSimulation(state, IDLE, config).state;
+    }
+    expect(state).toMatchObject({ phase: 'levelCleared', level: 1 });
+
+    state = stepSimulation(state, { ...IDLE, launch: true }, config).state;
+    expect(state).toMatchObject({ phase: 'serving', level: 2, levelSummary: null });
+  });
+});
@@ -0,0 +1,28 @@
+import { LevelStats, LevelSummary } from '@/types/game';
+
+// Seconds a level may take per brick it needs broken before the time bonus runs out
+export const PAR_SECONDS_PER_BRICK = 3;
+// Points for every whole second under par
+export const TIME_BONUS_PER_SECOND = 10;
+// Points for clearing a level without losing a life
+export const NO_DEATH_BONUS = 500;
+
+export function createLevelStats(startTime: number, bricksToClear: number): LevelStats {
+  return { startTime, bricksToClear, blocksBroken: 0, livesLost: 0, rally: 0, longestRally: 0 };
+}
+
+// The summary, bonuses included, of `level` cleared at simulation time `time`
+export function summarizeLevel(level: number, stats: LevelStats, time: number): LevelSummary {
+  const taken = time - stats.startTime;
+  // Par comes from the layout, so breaking regenerated bricks again doesn't raise it
+  const par = stats.bricksToClear * PAR_SECONDS_PER_BRICK;
+  return {
+    level,
+    blocksBroken: stats.blocksBroken,
+    time: taken,
+    livesLost: stats.livesLost,
+    longestRally: stats.longestRally,
+    timeBonus: Math.max(0, Math.floor(par - taken)) * TIME_BONUS_PER_SECOND,
+    noDeathBonus: stats.livesLost === 0 ? NO_DEATH_BONUS : 0,
+  };
+}
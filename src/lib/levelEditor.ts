@@ -0,0 +1,133 @@
+import { BlockType } from '@/types/game';
+import { LEVEL_DESIGN_HEIGHT, LEVEL_DESIGN_WIDTH, LEVEL_FORMAT_VERSION, LevelBrick, LevelDefinition } from '@/types/level';
+import { validateLevel } from '@/lib/levels';
+
+const DRAFT_STORAGE_KEY = 'bricks-and-balls:editor-draft';
+
+// Properties applied to newly placed or painted bricks
+export interface BrickBrush {
+  type: BlockType;
+  color: string;
+  points: number;
+  hits: number;
+  width: number;
+  height: number;
+}
+
+export interface EditorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The brush's properties as they apply to a brick, leaving its placement alone
+export function brushFields(brush: BrickBrush): Pick<LevelBrick, 'type' | 'color' | 'points' | 'hits'> {
+  return { type: brush.type, color: brush.color, points: brush.points, hits: brush.hits };
+}
+
+export function createEmptyLevel(): LevelDefinition {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: 'Untitled Level',
+    bricks: [],
+  };
+}
+
+export function snap(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Top-left corner for a brush-sized brick centered on a point, snapped to
+ * the grid and kept inside the design space.
+ */
+export function snapBrickPosition(x: number, y: number, brush: BrickBrush, step: number): { x: number; y: number } {
+  return {
+    x: clamp(snap(x - brush.width / 2, step), 0, LEVEL_DESIGN_WIDTH - brush.width),
+    y: clamp(snap(y - brush.height / 2, step), 0, LEVEL_DESIGN_HEIGHT - brush.height),
+  };
+}
+
+export function brickAt(bricks: LevelBrick[], x: number, y: number): number {
+  // Topmost (last drawn) brick wins
+  for (let i = bricks.length - 1; i >= 0; i--) {
+    const brick = bricks[i];
+    if (x >= brick.x && x <= brick.x + brick.width && y >= brick.y && y <= brick.y + brick.height) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+export function bricksInRect(bricks: LevelBrick[], rect: EditorRect): number[] {
+  const area = normalizeRect(rect);
+  const found: number[] = [];
+  bricks.forEach((brick, i) => {
+    if (rectsOverlap(area, brick)) found.push(i);
+  });
+  return found;
+}
+
+export function overlapsAny(bricks: LevelBrick[], rect: EditorRect, ignore: Set<number> = new Set()): boolean {
+  return bricks.some((brick, i) => !ignore.has(i) && rectsOverlap(rect, brick));
+}
+
+/**
+ * Move the selected bricks by a delta, clamping the whole selection so no
+ * brick leaves the design space.
+ */
+export function moveBricks(bricks: LevelBrick[], selection: Set<number>, dx: number, dy: number): LevelBrick[] {
+  const selected = bricks.filter((_, i) => selection.has(i));
+  if (selected.length === 0) return bricks;
+
+  const minX = Math.min(...selected.map(b => b.x));
+  const minY = Math.min(...selected.map(b => b.y));
+  const maxX = Math.max(...selected.map(b => b.x + b.width));
+  const maxY = Math.max(...selected.map(b => b.y + b.height));
+  const clampedDx = clamp(dx, -minX, LEVEL_DESIGN_WIDTH - maxX);
+  const clampedDy = clamp(dy, -minY, LEVEL_DESIGN_HEIGHT - maxY);
+
+  return bricks.map((brick, i) =>
+    selection.has(i) ? { ...brick, x: brick.x + clampedDx, y: brick.y + clampedDy } : brick
+  );
+}
+
+export function normalizeRect(rect: EditorRect): EditorRect {
+  return {
+    x: Math.min(rect.x, rect.x + rect.width),
+    y: Math.min(rect.y, rect.y + rect.height),
+    width: Math.abs(rect.width),
+    height: Math.abs(rect.height),
+  };
+}
+
+/**
+ * The saved editor draft, or null if there is none or it no longer
+ * validates (e.g. written by an older format version).
+ */
+export function loadDraft(): LevelDefinition | null {
+  try {
+    const raw = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    if (!raw) return null;
+    return validateLevel(JSON.parse(raw), 'Saved draft');
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(level: LevelDefinition) {
+  try {
+    window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(level));
+  } catch {
+    // Storage full or disabled; the draft just won't survive a reload
+  }
+}
+
+function rectsOverlap(a: EditorRect, b: EditorRect): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
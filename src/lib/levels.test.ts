@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { LevelValidationError, parseLevel, serializeLevel, validateLevel } from '@/lib/levels';
+import { LEVEL_FORMAT_VERSION } from '@/types/level';
+
+function issuesOf(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof LevelValidationError) return error.issues.map(issue => issue.message);
+    throw error;
+  }
+  throw new Error('expected a LevelValidationError');
+}
+
+describe('validateLevel', () => {
+  it('fills in brick defaults', () => {
+    const level = validateLevel({ version: LEVEL_FORMAT_VERSION, name: 'One', bricks: [{ x: 10, y: 20 }] });
+    expect(level.bricks).toEqual([
+      { x: 10, y: 20, width: 80, height: 25, type: 'standard', color: '#ff6b6b', points: 10, hits: 1 },
+    ]);
+  });
+
+  it('lays out a grid from its legend', () => {
+    const level = validateLevel({
+      version: LEVEL_FORMAT_VERSION,
+      name: 'Grid',
+      grid: { rows: ['a.a'], legend: { a: { color: '#00ff00' } } },
+    });
+    expect(level.bricks.map(brick => brick.x)).toEqual([35, 205]);
+    expect(level.bricks.every(brick => brick.color === '#00ff00')).toBe(true);
+  });
+
+  it('reports every problem at once', () => {
+    const issues = issuesOf(() => validateLevel({ version: 99, name: '', background: 'red', bricks: [] }));
+    expect(issues).toHaveLength(3);
+  });
+
+  it('rejects a level with both bricks and a grid', () => {
+    expect(issuesOf(() => validateLevel({
+      version: LEVEL_FORMAT_VERSION,
+      name: 'Both',
+      bricks: [{ x: 0, y: 0 }],
+      grid: { rows: ['a'], legend: { a: {} } },
+    }))).toEqual(['a level must have either "bricks" or "grid", not both']);
+  });
+
+  it('rejects a level that could never be cleared', () => {
+    expect(issuesOf(() => validateLevel({
+      version: LEVEL_FORMAT_VERSION,
+      name: 'Walls',
+      bricks: [{ x: 0, y: 0, type: 'indestructible' }],
+    }))).toEqual(['the level has no breakable bricks, so it could never be cleared']);
+  });
+});
+
+describe('parseLevel', () => {
+  it('points issues at their line', () => {
+    const text = `{\n  "version": ${LEVEL_FORMAT_VERSION},\n  "name": 5,\n  "bricks": [{ "x": 0, "y": 0 }]\n}`;
+    try {
+      parseLevel(text);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(LevelValidationError);
+      expect((error as LevelValidationError).issues[0]).toMatchObject({ path: 'name', line: 3 });
+    }
+  });
+
+  it('reports a JSON syntax error with its location', () => {
+    expect(() => parseLevel('{\n  "name": }')).toThrow(/line 2/);
+  });
+
+  it('reads back what serializeLevel writes', () => {
+    const level = validateLevel({ version: LEVEL_FORMAT_VERSION, name: 'Round trip', bricks: [{ x: 5, y: 6, hits: 2 }] });
+    expect(parseLevel(serializeLevel(level))).toEqual(level);
+  });
+});
@@ -0,0 +1,391 @@
+import { Block, BlockType, GameConfig } from '@/types/game';
+import {
+  LEVEL_DESIGN_HEIGHT,
+  LEVEL_DESIGN_WIDTH,
+  LEVEL_FORMAT_VERSION,
+  LevelBrick,
+  LevelBrickSource,
+  LevelDefinition,
+  LevelFile,
+  LevelIssue,
+} from '@/types/level';
+import { JsonSyntaxError, SourceLocation, parseJsonWithLocations } from '@/lib/jsonSource';
+import { BLOCK_TYPES, BLOCK_TYPE_RULES, MAX_BLOCK_HITS } from '@/lib/blockTypes';
+import { BUNDLED_LEVELS } from '@/levels';
+
+const DEFAULT_BRICK = {
+  width: 80,
+  height: 25,
+  type: 'standard' as BlockType,
+  color: '#ff6b6b',
+  points: 10,
+};
+
+const DEFAULT_GRID = {
+  cellWidth: 80,
+  cellHeight: 25,
+  gap: 5,
+  offsetX: 35,
+  offsetY: 60,
+};
+
+const MAX_BALL_SPEED = 3000; // units per second
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export class LevelValidationError extends Error {
+  issues: LevelIssue[];
+
+  constructor(sourceName: string, issues: LevelIssue[]) {
+    super(`${sourceName} is not a valid level:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'LevelValidationError';
+    this.issues = issues;
+  }
+}
+
+export function formatIssue(issue: LevelIssue): string {
+  const where = issue.line !== undefined
+    ? `line ${issue.line}${issue.column !== undefined ? `, column ${issue.column}` : ''}`
+    : issue.path || 'level';
+  return issue.line !== undefined && issue.path
+    ? `${where} (${issue.path}): ${issue.message}`
+    : `${where}: ${issue.message}`;
+}
+
+/**
+ * Parse and validate a level file's text. Throws `LevelValidationError`
+ * listing every problem found, each pointing at its line in `text`.
+ */
+export function parseLevel(text: string, sourceName = 'Level file'): LevelDefinition {
+  let parsed;
+  try {
+    parsed = parseJsonWithLocations(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      const { line, column } = error.location;
+      throw new LevelValidationError(sourceName, [{ path: '', line, column, message: error.message.replace(/^line \d+, column \d+: /, '') }]);
+    }
+    throw error;
+  }
+  return validateLevel(parsed.value, sourceName, parsed.locations);
+}
+
+/**
+ * Validate an already-parsed level file. Pass the `locations` from
+ * `parseJsonWithLocations` to get line numbers in the reported issues.
+ */
+export function validateLevel(
+  value: unknown,
+  sourceName = 'Level file',
+  locations?: Map<string, SourceLocation>
+): LevelDefinition {
+  const issues: LevelIssue[] = [];
+  const report = (path: string, message: string, columnOffset = 0) => {
+    const location = locations?.get(path);
+    issues.push({
+      path,
+      line: location?.line,
+      column: location ? location.column + columnOffset : undefined,
+      message,
+    });
+  };
+
+  if (!isObject(value)) {
+    report('', 'a level must be a JSON object');
+    throw new LevelValidationError(sourceName, issues);
+  }
+
+  const file = value as Partial<LevelFile>;
+
+  if (file.version !== LEVEL_FORMAT_VERSION) {
+    report('version', file.version === undefined
+      ? `missing "version" (expected ${LEVEL_FORMAT_VERSION})`
+      : `unsupported version ${JSON.stringify(file.version)} (expected ${LEVEL_FORMAT_VERSION})`);
+  }
+
+  if (typeof file.name !== 'string' || file.name.trim() === '') {
+    report('name', '"name" must be a non-empty string');
+  }
+
+  if (file.background !== undefined && !isColor(file.background)) {
+    report('background', '"background" must be a hex color like #f8f9fa');
+  }
+
+  if (file.ballSpeed !== undefined && !(isNumber(file.ballSpeed) && file.ballSpeed > 0 && file.ballSpeed <= MAX_BALL_SPEED)) {
+    report('ballSpeed', `"ballSpeed" must be a number between 0 and ${MAX_BALL_SPEED} units per second`);
+  }
+
+  let bricks: LevelBrick[] = [];
+  if (file.bricks !== undefined && file.grid !== undefined) {
+    report('', 'a level must have either "bricks" or "grid", not both');
+  } else if (file.bricks !== undefined) {
+    bricks = validateBricks(file.bricks, report);
+  } else if (file.grid !== undefined) {
+    bricks = validateGrid(file.grid, report);
+  } else {
+    report('', 'a level must have a "bricks" list or a "grid" layout');
+  }
+
+  if (issues.length === 0 && bricks.length === 0) {
+    report(file.grid !== undefined ? 'grid' : 'bricks', 'the level has no bricks');
+  } else if (issues.length === 0 && !bricks.some(brick => BLOCK_TYPE_RULES[brick.type].required)) {
+    report(file.grid !== undefined ? 'grid' : 'bricks', 'the level has no breakable bricks, so it could never be cleared');
+  }
+
+  if (issues.length > 0) {
+    throw new LevelValidationError(sourceName, issues);
+  }
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: file.name!,
+    background: file.background,
+    ballSpeed: file.ballSpeed,
+    bricks,
+  };
+}
+
+/**
+ * Turn a validated level into blocks, scaling from the design space to the
+ * configured playfield.
+ */
+export function buildLevelBlocks(level: LevelDefinition, config: Pick<GameConfig, 'canvasWidth' | 'canvasHeight'>): Block[] {
+  const scaleX = config.canvasWidth / LEVEL_DESIGN_WIDTH;
+  const scaleY = config.canvasHeight / LEVEL_DESIGN_HEIGHT;
+
+  return level.bricks.map(brick => ({
+    type: brick.type,
+    position: { x: brick.x * scaleX, y: brick.y * scaleY },
+    width: brick.width * scaleX,
+    height: brick.height * scaleY,
+    color: brick.color,
+    destroyed: false,
+    points: brick.points,
+    hitPoints: brick.hits,
+    maxHitPoints: brick.hits,
+    timesDestroyed: 0,
+  }));
+}
+
+/**
+ * Serialize a level to the JSON file format, one brick per line so files
+ * diff cleanly and validation errors point at a single brick.
+ */
+export function serializeLevel(level: LevelDefinition): string {
+  const header: Omit<LevelFile, 'bricks'> = {
+    version: LEVEL_FORMAT_VERSION,
+    name: level.name,
+  };
+  if (level.background !== undefined) header.background = level.background;
+  if (level.ballSpeed !== undefined) header.ballSpeed = level.ballSpeed;
+
+  const headerLines = Object.entries(header).map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)},`);
+  const brickLines = level.bricks.map(({ x, y, width, height, type, color, points, hits }, i) => {
+    const source: LevelBrickSource = { x, y, width, height, type, color, points };
+    if (hits !== BLOCK_TYPE_RULES[type].defaultHits) source.hits = hits;
+    return `    ${JSON.stringify(source)}${i < level.bricks.length - 1 ? ',' : ''}`;
+  });
+
+  return ['{', ...headerLines, '  "bricks": [', ...brickLines, '  ]', '}', ''].join('\n');
+}
+
+const bundledCache = new Map<number, LevelDefinition | null>();
+
+/**
+ * The bundled level for a 1-based level number, or null once the pack runs
+ * out (or if that bundled file is broken) so callers fall back to
+ * procedural generation.
+ */
+export function getBundledLevel(levelNumber: number): LevelDefinition | null {
+  if (bundledCache.has(levelNumber)) {
+    return bundledCache.get(levelNumber)!;
+  }
+
+  const entry = BUNDLED_LEVELS[levelNumber - 1];
+  let level: LevelDefinition | null = null;
+  if (entry) {
+    try {
+      level = validateLevel(entry.source, entry.file);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  bundledCache.set(levelNumber, level);
+  return level;
+}
+
+type Report = (path: string, message: string, columnOffset?: number) => void;
+
+function validateBricks(value: unknown, report: Report): LevelBrick[] {
+  if (!Array.isArray(value)) {
+    report('bricks', '"bricks" must be a list');
+    return [];
+  }
+
+  const bricks: LevelBrick[] = [];
+  value.forEach((raw, i) => {
+    const path = `bricks[${i}]`;
+    if (!isObject(raw)) {
+      report(path, 'each brick must be an object');
+      return;
+    }
+
+    const brick = resolveBrickFields(raw, DEFAULT_BRICK, path, report);
+    if (!isNumber(raw.x)) report(`${path}.x`, '"x" must be a number');
+    if (!isNumber(raw.y)) report(`${path}.y`, '"y" must be a number');
+    if (!brick || !isNumber(raw.x) || !isNumber(raw.y)) return;
+
+    const resolved = { ...brick, x: raw.x as number, y: raw.y as number };
+    if (!fitsDesignSpace(resolved)) {
+      report(path, `brick lies outside the ${LEVEL_DESIGN_WIDTH}×${LEVEL_DESIGN_HEIGHT} playfield`);
+      return;
+    }
+    bricks.push(resolved);
+  });
+
+  return bricks;
+}
+
+function validateGrid(value: unknown, report: Report): LevelBrick[] {
+  if (!isObject(value)) {
+    report('grid', '"grid" must be an object');
+    return [];
+  }
+
+  const layout = { ...DEFAULT_GRID };
+  for (const key of Object.keys(DEFAULT_GRID) as Array<keyof typeof DEFAULT_GRID>) {
+    const field = value[key];
+    if (field === undefined) continue;
+    const mustBePositive = key === 'cellWidth' || key === 'cellHeight';
+    if (!isNumber(field) || (mustBePositive ? field <= 0 : field < 0)) {
+      report(`grid.${key}`, `"${key}" must be a ${mustBePositive ? 'positive' : 'non-negative'} number`);
+      continue;
+    }
+    layout[key] = field;
+  }
+
+  const legend = new Map<string, Omit<LevelBrick, 'x' | 'y'>>();
+  if (!isObject(value.legend)) {
+    report('grid.legend', '"legend" must map characters to brick descriptions');
+  } else {
+    for (const [symbol, entry] of Object.entries(value.legend)) {
+      const path = `grid.legend.${symbol}`;
+      if (symbol.length !== 1 || symbol === '.' || symbol === ' ') {
+        report(path, `legend keys must be single characters other than "." and space, got ${JSON.stringify(symbol)}`);
+        continue;
+      }
+      if (!isObject(entry)) {
+        report(path, 'each legend entry must be an object');
+        continue;
+      }
+      const brick = resolveBrickFields(entry, DEFAULT_BRICK, path, report);
+      if (brick) {
+        legend.set(symbol, { ...brick, width: layout.cellWidth, height: layout.cellHeight });
+      }
+    }
+  }
+
+  if (!Array.isArray(value.rows)) {
+    report('grid.rows', '"rows" must be a list of strings');
+    return [];
+  }
+
+  const bricks: LevelBrick[] = [];
+  value.rows.forEach((row, r) => {
+    const path = `grid.rows[${r}]`;
+    if (typeof row !== 'string') {
+      report(path, 'each row must be a string');
+      return;
+    }
+
+    Array.from(row).forEach((symbol, c) => {
+      if (symbol === '.' || symbol === ' ') return;
+
+      const brick = legend.get(symbol);
+      if (!brick) {
+        // +1 skips the opening quote so the column lands on the character
+        if (isObject(value.legend) && !(symbol in value.legend)) {
+          report(path, `unknown brick ${JSON.stringify(symbol)} at position ${c + 1}; add it to "legend"`, c + 1);
+        }
+        return;
+      }
+
+      const resolved = {
+        ...brick,
+        x: layout.offsetX + c * (layout.cellWidth + layout.gap),
+        y: layout.offsetY + r * (layout.cellHeight + layout.gap),
+      };
+      if (!fitsDesignSpace(resolved)) {
+        report(path, `brick ${JSON.stringify(symbol)} at position ${c + 1} lies outside the ${LEVEL_DESIGN_WIDTH}×${LEVEL_DESIGN_HEIGHT} playfield`, c + 1);
+        return;
+      }
+      bricks.push(resolved);
+    });
+  });
+
+  return bricks;
+}
+
+// Check the optional per-brick fields, falling back to `defaults`. Returns
+// null if any field was invalid (after reporting it).
+function resolveBrickFields(
+  raw: Record<string, unknown>,
+  defaults: typeof DEFAULT_BRICK,
+  path: string,
+  report: Report
+): Omit<LevelBrick, 'x' | 'y'> | null {
+  let valid = true;
+  const fail = (field: string, message: string) => {
+    report(`${path}.${field}`, message);
+    valid = false;
+  };
+
+  if (raw.width !== undefined && !(isNumber(raw.width) && raw.width > 0)) fail('width', '"width" must be a positive number');
+  if (raw.height !== undefined && !(isNumber(raw.height) && raw.height > 0)) fail('height', '"height" must be a positive number');
+  if (raw.type !== undefined && !BLOCK_TYPES.includes(raw.type as BlockType)) {
+    fail('type', `unknown brick type ${JSON.stringify(raw.type)} (expected one of ${BLOCK_TYPES.join(', ')})`);
+  }
+  if (raw.color !== undefined && !isColor(raw.color)) fail('color', '"color" must be a hex color like #ff6b6b');
+  if (raw.points !== undefined && !(Number.isInteger(raw.points) && (raw.points as number) >= 0)) {
+    fail('points', '"points" must be a whole number of 0 or more');
+  }
+
+  const type = (raw.type as BlockType | undefined) ?? defaults.type;
+  const rules = BLOCK_TYPE_RULES[type];
+  if (raw.hits !== undefined) {
+    if (!(Number.isInteger(raw.hits) && (raw.hits as number) >= 1 && (raw.hits as number) <= MAX_BLOCK_HITS)) {
+      fail('hits', `"hits" must be a whole number from 1 to ${MAX_BLOCK_HITS}`);
+    } else if (rules && !rules.breakable) {
+      fail('hits', `"hits" has no effect on ${type} bricks`);
+    }
+  }
+
+  if (!valid) return null;
+
+  return {
+    width: (raw.width as number | undefined) ?? defaults.width,
+    height: (raw.height as number | undefined) ?? defaults.height,
+    type,
+    color: (raw.color as string | undefined) ?? defaults.color,
+    points: (raw.points as number | undefined) ?? defaults.points,
+    hits: (raw.hits as number | undefined) ?? rules.defaultHits,
+  };
+}
+
+function fitsDesignSpace(brick: LevelBrick): boolean {
+  return brick.x >= 0 && brick.y >= 0 &&
+    brick.x + brick.width <= LEVEL_DESIGN_WIDTH &&
+    brick.y + brick.height <= LEVEL_DESIGN_HEIGHT;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR.test(value);
+}
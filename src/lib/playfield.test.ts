@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH, clientToPlayfield, devicePixelRatio, fitCanvasToDisplay } from '@/lib/playfield';
+
+// Just enough of a canvas laid out at `rect` on the page
+function fakeCanvas(rect: { left: number; top: number; width: number; height: number }, size = { width: 300, height: 150 }) {
+  return { ...size, getBoundingClientRect: () => rect } as unknown as HTMLCanvasElement;
+}
+
+describe('playfield mapping', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps client coordinates to playfield units at any displayed size', () => {
+    const half = fakeCanvas({ left: 20, top: 10, width: PLAYFIELD_WIDTH / 2, height: PLAYFIELD_HEIGHT / 2 });
+    expect(clientToPlayfield(half, 20, 10)).toEqual({ x: 0, y: 0 });
+    expect(clientToPlayfield(half, 20 + PLAYFIELD_WIDTH / 4, 10 + PLAYFIELD_HEIGHT / 4)).toEqual({ x: PLAYFIELD_WIDTH / 2, y: PLAYFIELD_HEIGHT / 2 });
+
+    const large = fakeCanvas({ left: 0, top: 0, width: PLAYFIELD_WIDTH * 2, height: PLAYFIELD_HEIGHT * 2 });
+    expect(clientToPlayfield(large, PLAYFIELD_WIDTH * 2, PLAYFIELD_HEIGHT * 2)).toEqual({ x: PLAYFIELD_WIDTH, y: PLAYFIELD_HEIGHT });
+  });
+
+  it('reads the pixel ratio from the window, or 1 without one', () => {
+    expect(devicePixelRatio()).toBe(1);
+    vi.stubGlobal('window', { devicePixelRatio: 2.5 });
+    expect(devicePixelRatio()).toBe(2.5);
+  });
+
+  it('sizes the backing store to the device pixels shown, and reports only real changes', () => {
+    vi.stubGlobal('window', { devicePixelRatio: 2 });
+    const canvas = fakeCanvas({ left: 0, top: 0, width: 400.4, height: 300 });
+    expect(fitCanvasToDisplay(canvas)).toBe(true);
+    expect([canvas.width, canvas.height]).toEqual([801, 600]);
+    expect(fitCanvasToDisplay(canvas)).toBe(false);
+  });
+
+  it('keeps the backing store at least one pixel', () => {
+    const hidden = fakeCanvas({ left: 0, top: 0, width: 0, height: 0 });
+    fitCanvasToDisplay(hidden);
+    expect([hidden.width, hidden.height]).toEqual([1, 1]);
+  });
+});
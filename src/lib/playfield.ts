@@ -0,0 +1,42 @@
+import { LEVEL_DESIGN_HEIGHT, LEVEL_DESIGN_WIDTH } from '@/types/level';
+import { Position } from '@/types/game';
+
+/**
+ * Size of the playfield in simulation units. The game is always simulated
+ * at this size and only scaled when drawn, so resizing the window never
+ * touches the game state. It matches the level design space, so levels are
+ * played exactly as designed.
+ */
+export const PLAYFIELD_WIDTH = LEVEL_DESIGN_WIDTH;
+export const PLAYFIELD_HEIGHT = LEVEL_DESIGN_HEIGHT;
+
+// Device pixels per CSS pixel; above 1 on Retina and most phone screens
+export function devicePixelRatio(): number {
+  return typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+}
+
+/**
+ * Give the canvas one backing-store pixel per device pixel of its size on
+ * screen, so it stays sharp at any pixel ratio. Returns whether the size
+ * changed; changing it clears the canvas.
+ */
+export function fitCanvasToDisplay(canvas: HTMLCanvasElement): boolean {
+  const rect = canvas.getBoundingClientRect();
+  const ratio = devicePixelRatio();
+  const width = Math.max(1, Math.round(rect.width * ratio));
+  const height = Math.max(1, Math.round(rect.height * ratio));
+  if (canvas.width === width && canvas.height === height) return false;
+
+  canvas.width = width;
+  canvas.height = height;
+  return true;
+}
+
+// A point in client (CSS pixel) coordinates to playfield units; the inverse of how the playfield is drawn
+export function clientToPlayfield(canvas: HTMLCanvasElement, clientX: number, clientY: number): Position {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: (clientX - rect.left) * (PLAYFIELD_WIDTH / rect.width),
+    y: (clientY - rect.top) * (PLAYFIELD_HEIGHT / rect.height),
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Controls, GameState, PowerUpType } from '@/types/game';
+import { createGameConfig } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import {
+  CAPSULE_HEIGHT,
+  CAPSULE_WIDTH,
+  POWER_UPS,
+  activatePowerUp,
+  ballSpeedFactor,
+  choosePowerUp,
+  paddleWidthFactor,
+  tickPowerUps,
+} from '@/lib/powerUps';
+import { SimulationEvent, cloneGameState, createGameState, startGame, stepSimulation } from '@/lib/simulation';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+const IDLE: Controls = { moveLeft: false, moveRight: false };
+
+// A launched run with a capsule of `type` about to land on the paddle
+function catchCapsule(type: PowerUpType): { state: GameState; events: SimulationEvent[] } {
+  const served = startGame(createGameState(config, undefined, 1));
+  const state = cloneGameState(stepSimulation(served, { ...IDLE, launch: true }, config).state);
+  const { paddle } = state;
+  state.capsules.push({
+    type,
+    position: { x: paddle.position.x + (paddle.width - CAPSULE_WIDTH) / 2, y: paddle.position.y - CAPSULE_HEIGHT - 1 },
+    width: CAPSULE_WIDTH,
+    height: CAPSULE_HEIGHT,
+  });
+
+  const events: SimulationEvent[] = [];
+  let next = state;
+  for (let tick = 0; tick < 60 && next.capsules.length > 0; tick++) {
+    const result = stepSimulation(next, IDLE, config);
+    next = result.state;
+    events.push(...result.events);
+  }
+  return { state: next, events };
+}
+
+describe('activatePowerUp', () => {
+  it('stacks an effect caught again, up to its limit, and refreshes it', () => {
+    let active = activatePowerUp([], 'widePaddle');
+    active = tickPowerUps(active, 5).active;
+    active = activatePowerUp(active, 'widePaddle');
+    active = activatePowerUp(active, 'widePaddle');
+    expect(active).toEqual([{ type: 'widePaddle', remaining: POWER_UPS.widePaddle.duration, stacks: 2 }]);
+    expect(paddleWidthFactor(active)).toBeCloseTo(2.25);
+  });
+
+  it('replaces an effect from the same group', () => {
+    const active = activatePowerUp(activatePowerUp(activatePowerUp([], 'slowBall'), 'laserPaddle'), 'fastBall');
+    expect(active.map(powerUp => powerUp.type)).toEqual(['laserPaddle', 'fastBall']);
+    expect(ballSpeedFactor(active)).toBeCloseTo(1.25);
+  });
+});
+
+describe('tickPowerUps', () => {
+  it('splits off the effects that ran out', () => {
+    const active = activatePowerUp(activatePowerUp([], 'piercingBall'), 'stickyPaddle');
+    const { active: left, expired } = tickPowerUps(active, POWER_UPS.piercingBall.duration);
+    expect(expired).toEqual(['piercingBall']);
+    expect(left).toEqual([{ type: 'stickyPaddle', remaining: POWER_UPS.stickyPaddle.duration - POWER_UPS.piercingBall.duration, stacks: 1 }]);
+  });
+});
+
+describe('choosePowerUp', () => {
+  it('covers every power-up in proportion to its drop weight', () => {
+    const counts: Partial<Record<PowerUpType, number>> = {};
+    const rolls = 10000;
+    for (let i = 0; i < rolls; i++) {
+      const type = choosePowerUp(i / rolls);
+      counts[type] = (counts[type] ?? 0) + 1;
+    }
+    const total = Object.values(POWER_UPS).reduce((sum, definition) => sum + definition.dropWeight, 0);
+    for (const [type, definition] of Object.entries(POWER_UPS)) {
+      expect(counts[type as PowerUpType]! / rolls).toBeCloseTo(definition.dropWeight / total, 2);
+    }
+  });
+});
+
+describe('catching capsules', () => {
+  it('widens the paddle around its center', () => {
+    const before = createGameState(config, undefined, 1).paddle;
+    const { state, events } = catchCapsule('widePaddle');
+    expect(events).toContainEqual({ type: 'powerUpCollected', powerUp: 'widePaddle' });
+    expect(state.paddle.width).toBeCloseTo(state.paddle.baseWidth * 1.5);
+    expect(state.paddle.position.x + state.paddle.width / 2).toBeCloseTo(before.position.x + before.width / 2);
+  });
+
+  it('gives an extra life straight away without a timed effect', () => {
+    const start = createGameState(config, undefined, 1);
+    const { state } = catchCapsule('extraLife');
+    expect(state.lives).toBe(start.lives + 1);
+    expect(state.powerUps).toEqual([]);
+  });
+
+  it('keeps the ball speed in line with the active effects', () => {
+    const { state } = catchCapsule('slowBall');
+    const [ball] = state.balls;
+    expect(Math.hypot(ball.velocity.x, ball.velocity.y)).toBeCloseTo(state.ballSpeed * 0.75);
+  });
+
+  it('lets capsules the paddle misses fall away', () => {
+    const served = startGame(createGameState(config, undefined, 1));
+    let state = cloneGameState(stepSimulation(served, { ...IDLE, launch: true }, config).state);
+    state.capsules.push({ type: 'extraLife', position: { x: 0, y: PLAYFIELD_HEIGHT - 20 }, width: CAPSULE_WIDTH, height: CAPSULE_HEIGHT });
+    for (let tick = 0; tick < 60; tick++) {
+      state = stepSimulation(state, { ...IDLE, pointerX: PLAYFIELD_WIDTH - 60 }, config).state;
+    }
+    expect(state.capsules).toEqual([]);
+    expect(state.lives).toBe(served.lives);
+  });
+});
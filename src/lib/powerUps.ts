@@ -0,0 +1,102 @@
+import { ActivePowerUp, PowerUpType } from '@/types/game';
+
+export interface PowerUpDefinition {
+  label: string;
+  icon: string; // short glyph shown on the capsule and the HUD
+  color: string;
+  duration: number; // seconds; 0 for one-shot effects
+  // Timed effects in the same group cancel each other: catching one replaces the other
+  group?: 'paddleSize' | 'ballSpeed';
+  // Catching an active effect again refreshes it and adds a stack, up to this many
+  maxStacks: number;
+  // Relative chance of dropping compared to the other power-ups
+  dropWeight: number;
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  widePaddle: { label: 'Wide', icon: 'W', color: '#34c759', duration: 15, group: 'paddleSize', maxStacks: 2, dropWeight: 3 },
+  narrowPaddle: { label: 'Narrow', icon: 'N', color: '#ff3b30', duration: 12, group: 'paddleSize', maxStacks: 1, dropWeight: 1.5 },
+  slowBall: { label: 'Slow', icon: 'S', color: '#5ac8fa', duration: 12, group: 'ballSpeed', maxStacks: 2, dropWeight: 2 },
+  fastBall: { label: 'Fast', icon: 'F', color: '#ff9500', duration: 10, group: 'ballSpeed', maxStacks: 2, dropWeight: 1.5 },
+  extraLife: { label: 'Extra Life', icon: '+1', color: '#ff2d55', duration: 0, maxStacks: 1, dropWeight: 0.5 },
+  multiBall: { label: 'Multi-Ball', icon: 'M', color: '#af52de', duration: 0, maxStacks: 1, dropWeight: 1 },
+  stickyPaddle: { label: 'Sticky', icon: 'G', color: '#ffcc00', duration: 20, maxStacks: 1, dropWeight: 1.5 },
+  laserPaddle: { label: 'Laser', icon: 'L', color: '#ff3b30', duration: 10, maxStacks: 1, dropWeight: 1.5 },
+  piercingBall: { label: 'Pierce', icon: 'P', color: '#5856d6', duration: 8, maxStacks: 1, dropWeight: 1 },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+// Chance that a destroyed brick drops a capsule
+export const CAPSULE_DROP_CHANCE = 0.15;
+export const CAPSULE_FALL_SPEED = 150; // units per second
+export const CAPSULE_WIDTH = 36;
+export const CAPSULE_HEIGHT = 14;
+
+export const LASER_SPEED = 720; // units per second
+export const LASER_INTERVAL = 0.45; // seconds between shots
+
+/**
+ * Pick a power-up by drop weight. `roll` is a uniform random number in
+ * [0, 1).
+ */
+export function choosePowerUp(roll: number): PowerUpType {
+  const total = POWER_UP_TYPES.reduce((sum, type) => sum + POWER_UPS[type].dropWeight, 0);
+  let remaining = roll * total;
+  for (const type of POWER_UP_TYPES) {
+    remaining -= POWER_UPS[type].dropWeight;
+    if (remaining < 0 && POWER_UPS[type].dropWeight > 0) return type;
+  }
+  return POWER_UP_TYPES.filter(type => POWER_UPS[type].dropWeight > 0).pop()!;
+}
+
+/**
+ * Add a timed effect to the active list. Catching an active effect again
+ * refreshes its duration and stacks it; catching one from the same group
+ * replaces whatever was there.
+ */
+export function activatePowerUp(active: ActivePowerUp[], type: PowerUpType): ActivePowerUp[] {
+  const definition = POWER_UPS[type];
+  const existing = active.find(powerUp => powerUp.type === type);
+  const others = active.filter(powerUp =>
+    powerUp.type !== type && (!definition.group || POWER_UPS[powerUp.type].group !== definition.group)
+  );
+
+  return [...others, {
+    type,
+    remaining: definition.duration,
+    stacks: Math.min((existing?.stacks ?? 0) + 1, definition.maxStacks),
+  }];
+}
+
+// Count down every active effect, splitting off the ones that ran out
+export function tickPowerUps(active: ActivePowerUp[], deltaTime: number): { active: ActivePowerUp[]; expired: PowerUpType[] } {
+  const remaining: ActivePowerUp[] = [];
+  const expired: PowerUpType[] = [];
+  for (const powerUp of active) {
+    const left = powerUp.remaining - deltaTime;
+    if (left > 0) {
+      remaining.push({ ...powerUp, remaining: left });
+    } else {
+      expired.push(powerUp.type);
+    }
+  }
+  return { active: remaining, expired };
+}
+
+export function hasPowerUp(active: ActivePowerUp[], type: PowerUpType): boolean {
+  return active.some(powerUp => powerUp.type === type);
+}
+
+export function paddleWidthFactor(active: ActivePowerUp[]): number {
+  return stackFactor(active, 'widePaddle', 1.5) * stackFactor(active, 'narrowPaddle', 0.6);
+}
+
+export function ballSpeedFactor(active: ActivePowerUp[]): number {
+  return stackFactor(active, 'slowBall', 0.75) * stackFactor(active, 'fastBall', 1.25);
+}
+
+function stackFactor(active: ActivePowerUp[], type: PowerUpType, perStack: number): number {
+  const powerUp = active.find(p => p.type === type);
+  return powerUp ? perStack ** powerUp.stacks : 1;
+}
@@ -0,0 +1,17 @@
+/**
+ * Seeded PRNG (mulberry32). The generator's whole state is a single uint32
+ * kept in `GameState`, so a run is reproducible from its seed and cloning
+ * a state clones its random sequence too.
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+// A fresh seed for a new run; the only unseeded randomness in the game
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
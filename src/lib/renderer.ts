@@ -0,0 +1,718 @@
+import { GameState, Ball, Paddle, Block, Capsule, LaserShot, LevelSummary, Position } from '@/types/game';
+import { POWER_UPS, hasPowerUp } from '@/lib/powerUps';
+import { EffectsSystem } from '@/lib/effects';
+import { DEFAULT_THEME } from '@/lib/themes';
+import { COLORBLIND_PALETTE, brickColorIndex } from '@/lib/accessibility';
+import { DIFFICULTY_PRESETS } from '@/lib/difficulty';
+import { LEVEL_CLEARED_DURATION } from '@/lib/simulation';
+import { BrickPalette } from '@/types/accessibility';
+import { ColorStops, RenderTheme } from '@/types/theme';
+
+const MAX_CRACKS = 4;
+const GHOST_ALPHA = 0.3;
+const BLOCK_CORNER_RADIUS = 8;
+const PADDLE_CORNER_RADIUS = 12;
+// Width of the light and dark edges on pixel-style shapes
+const BEVEL = 3;
+// Level summary card: seconds it takes to rise in, then between its rows appearing
+const SUMMARY_RISE_TIME = 0.3;
+const SUMMARY_ROW_DELAY = 0.15;
+const SUMMARY_ROW_HEIGHT = 22;
+
+/**
+ * Draws a `GameState` onto a 2D canvas context in the look of a
+ * `RenderTheme`. Holds no game state of its own, so the same renderer can
+ * draw live play or any other state source.
+ *
+ * `width` and `height` are the playfield's size in simulation units;
+ * `render` scales it to fill whatever size the canvas has. The HUD and
+ * overlays are drawn in CSS pixels instead, so they stay readable however
+ * small the playfield is shown.
+ */
+export class GameRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private readonly width: number;
+  private readonly height: number;
+  // Canvas pixels per CSS pixel
+  private pixelRatio = 1;
+  private theme: RenderTheme;
+  private brickPalette: BrickPalette = 'level';
+  private brickGlyphs = false;
+  // How to launch, e.g. 'Tap or press ↑', for the serve and next-level prompts; none if unset
+  private launchHint: string | null = null;
+
+  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, theme: RenderTheme = DEFAULT_THEME) {
+    this.ctx = ctx;
+    this.width = width;
+    this.height = height;
+    this.theme = theme;
+  }
+
+  // Match the canvas's backing store, e.g. `devicePixelRatio` for a HiDPI canvas
+  public setPixelRatio(ratio: number) {
+    this.pixelRatio = ratio;
+  }
+
+  // Takes effect from the next frame drawn
+  public setTheme(theme: RenderTheme) {
+    this.theme = theme;
+  }
+
+  // Colorblind-safe brick colors and shape glyphs that tell bricks apart without color
+  public setBrickStyle(palette: BrickPalette, glyphs: boolean) {
+    this.brickPalette = palette;
+    this.brickGlyphs = glyphs;
+  }
+
+  // Live play sets this from the player's bindings; replays leave the prompts out
+  public setLaunchHint(hint: string | null) {
+    this.launchHint = hint;
+  }
+
+  /**
+   * Render `state`, placing moving objects `alpha` of the way from their
+   * positions in `previous` so motion stays smooth on displays that refresh
+   * faster or slower than the simulation rate. `ghost` adds another run's
+   * paddle and balls, faded, to race against. `effects` adds particles,
+   * screen shake and flashes on top.
+   */
+  public render(state: GameState, previous: GameState = state, alpha = 1, ghost?: GameState, effects?: EffectsSystem) {
+    const { width: canvasWidth, height: canvasHeight } = this.ctx.canvas;
+    this.ctx.setTransform(canvasWidth / this.width, 0, 0, canvasHeight / this.height, 0, 0);
+
+    const shake = effects?.shakeOffset() ?? { x: 0, y: 0 };
+    const shaking = shake.x !== 0 || shake.y !== 0;
+    if (shaking) {
+      // Cover the strip the shifted playfield uncovers
+      this.ctx.fillStyle = this.theme.background(state.background);
+      this.ctx.fillRect(0, 0, this.width, this.height);
+      this.ctx.save();
+      this.ctx.translate(shake.x, shake.y);
+    }
+
+    this.drawField(state.background, state.blocks);
+
+    state.capsules.forEach(capsule => this.drawCapsule(capsule));
+    state.laserShots.forEach(shot => this.drawLaserShot(shot));
+
+    if (ghost) {
+      this.drawGhost(ghost);
+    }
+
+    const paddle = {
+      ...state.paddle,
+      position: interpolate(previous.paddle.position, state.paddle.position, alpha),
+    };
+    if (hasPowerUp(state.powerUps, 'laserPaddle')) {
+      this.drawLaserCannons(paddle);
+    }
+    this.drawPaddle(paddle);
+
+    effects?.drawTrails(this.ctx);
+
+    // Interpolate each ball from its own previous position
+    for (const ball of state.balls) {
+      const before = previous.balls.find(b => b.id === ball.id) ?? ball;
+      this.drawBall({
+        ...ball,
+        position: interpolate(before.position, ball.position, alpha),
+      });
+    }
+
+    effects?.drawParticles(this.ctx);
+    if (shaking) {
+      this.ctx.restore();
+    }
+    effects?.drawFlash(this.ctx, this.width, this.height);
+
+    // Draw UI
+    this.ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    this.drawUI(state, canvasWidth / this.pixelRatio, canvasHeight / this.pixelRatio);
+  }
+
+  /**
+   * Clear to the theme's take on the level `background` and draw the live
+   * blocks, without paddle, ball or UI. Used on its own by tools that only
+   * show a layout.
+   */
+  public drawField(background: string, blocks: Block[]) {
+    this.ctx.fillStyle = this.theme.background(background);
+    this.ctx.fillRect(0, 0, this.width, this.height);
+
+    blocks.forEach(block => {
+      if (!block.destroyed) {
+        this.drawBlock(block);
+      }
+    });
+  }
+
+  private drawBlock(block: Block) {
+    const cornerRadius = this.theme.shapeStyle === 'pixel' ? 0 : BLOCK_CORNER_RADIUS;
+    const color = this.brickPalette === 'colorblind' ? COLORBLIND_PALETTE[brickColorIndex(block.color)] : block.color;
+    const colors = block.type === 'indestructible' ? this.theme.steel : this.theme.brickColors(color);
+
+    this.drawSolid(block.position.x, block.position.y, block.width, block.height, cornerRadius, colors, 'rgba(0, 0, 0, 0.1)', 8, 2, 0.3);
+    this.drawBlockDamage(block, cornerRadius);
+    this.drawBlockMarkings(block, cornerRadius);
+    // Explosive and indestructible bricks already carry their own markings
+    if (this.brickGlyphs && block.type !== 'explosive' && block.type !== 'indestructible') {
+      this.drawBrickGlyph(block);
+    }
+  }
+
+  // One of eight shapes, the same for every brick of a color
+  private drawBrickGlyph(block: Block) {
+    const ctx = this.ctx;
+    const x = block.position.x + block.width / 2;
+    const y = block.position.y + block.height / 2;
+    const r = Math.min(block.width, block.height) * 0.25;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    switch (brickColorIndex(block.color)) {
+      case 0: // dot
+        ctx.arc(x, y, r * 0.8, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 1: // triangle
+        ctx.moveTo(x, y - r);
+        ctx.lineTo(x + r, y + r);
+        ctx.lineTo(x - r, y + r);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 2: // square
+        ctx.rect(x - r * 0.8, y - r * 0.8, r * 1.6, r * 1.6);
+        ctx.fill();
+        break;
+      case 3: // diamond
+        ctx.moveTo(x, y - r);
+        ctx.lineTo(x + r, y);
+        ctx.lineTo(x, y + r);
+        ctx.lineTo(x - r, y);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 4: // plus
+        ctx.moveTo(x - r, y);
+        ctx.lineTo(x + r, y);
+        ctx.moveTo(x, y - r);
+        ctx.lineTo(x, y + r);
+        ctx.stroke();
+        break;
+      case 5: // ring
+        ctx.arc(x, y, r * 0.8, 0, Math.PI * 2);
+        ctx.stroke();
+        break;
+      case 6: // bars
+        ctx.moveTo(x - r * 1.4, y - r * 0.4);
+        ctx.lineTo(x + r * 1.4, y - r * 0.4);
+        ctx.moveTo(x - r * 1.4, y + r * 0.4);
+        ctx.lineTo(x + r * 1.4, y + r * 0.4);
+        ctx.stroke();
+        break;
+      default: // cross
+        ctx.moveTo(x - r, y - r);
+        ctx.lineTo(x + r, y + r);
+        ctx.moveTo(x + r, y - r);
+        ctx.lineTo(x - r, y + r);
+        ctx.stroke();
+        break;
+    }
+    ctx.restore();
+  }
+
+  // Darken and crack a brick a little more with every hit it has taken
+  private drawBlockDamage(block: Block, cornerRadius: number) {
+    const hitsTaken = block.maxHitPoints - block.hitPoints;
+    if (hitsTaken <= 0) return;
+
+    const ctx = this.ctx;
+    const { x, y } = block.position;
+    const damage = hitsTaken / block.maxHitPoints;
+
+    ctx.save();
+    ctx.fillStyle = `rgba(0, 0, 0, ${0.35 * damage})`;
+    this.drawRoundedRect(x, y, block.width, block.height, cornerRadius);
+
+    ctx.strokeStyle = 'rgba(40, 20, 10, 0.55)';
+    ctx.lineWidth = 1.2;
+    ctx.lineJoin = 'round';
+    for (let crack = 0; crack < Math.min(hitsTaken, MAX_CRACKS); crack++) {
+      // Seeded by position so a crack stays put from frame to frame
+      const seed = x * 12.9898 + y * 78.233 + crack * 37.719;
+      ctx.beginPath();
+      let cx = x + block.width * (0.2 + 0.6 * noise(seed));
+      let cy = y;
+      ctx.moveTo(cx, cy);
+      for (let step = 1; step <= 4; step++) {
+        cx += (noise(seed + step) - 0.5) * block.width * 0.25;
+        cy = y + (block.height * step) / 4;
+        ctx.lineTo(cx, cy);
+      }
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  private drawBlockMarkings(block: Block, cornerRadius: number) {
+    const ctx = this.ctx;
+    const { x, y } = block.position;
+    const centerX = x + block.width / 2;
+    const centerY = y + block.height / 2;
+
+    ctx.save();
+    switch (block.type) {
+      case 'tough':
+        // Reinforced rim
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.roundRect(x + 1.5, y + 1.5, block.width - 3, block.height - 3, Math.max(0, cornerRadius - 1.5));
+        ctx.stroke();
+        break;
+      case 'indestructible':
+        // Rivets
+        ctx.fillStyle = 'rgba(60, 66, 76, 0.6)';
+        for (const [rx, ry] of [[x + 6, y + 6], [x + block.width - 6, y + 6], [x + 6, y + block.height - 6], [x + block.width - 6, y + block.height - 6]]) {
+          ctx.beginPath();
+          ctx.arc(rx, ry, 1.8, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        break;
+      case 'explosive': {
+        const radius = Math.min(block.width, block.height) * 0.28;
+        ctx.fillStyle = '#1D1D1F';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ff9f43';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius * 0.45, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      }
+      case 'regenerating':
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        ctx.roundRect(x + 3, y + 3, block.width - 6, block.height - 6, Math.max(0, cornerRadius - 3));
+        ctx.stroke();
+        break;
+    }
+    ctx.restore();
+  }
+
+  private drawPaddle(paddle: Paddle) {
+    const cornerRadius = this.theme.shapeStyle === 'pixel' ? 0 : PADDLE_CORNER_RADIUS;
+    const { x, y } = paddle.position;
+    this.drawSolid(x, y, paddle.width, paddle.height, cornerRadius, this.theme.paddle, 'rgba(0, 0, 0, 0.2)', 12, 4, 0.4);
+  }
+
+  private drawBall(ball: Ball) {
+    const ctx = this.ctx;
+    const { x, y } = ball.position;
+    const { center, middle, edge, rim } = this.theme.ball;
+
+    if (this.theme.shapeStyle === 'pixel') {
+      const size = ball.radius * 2;
+      ctx.fillStyle = center;
+      ctx.fillRect(Math.round(x - ball.radius), Math.round(y - ball.radius), size, size);
+      ctx.strokeStyle = rim;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(Math.round(x - ball.radius) + 0.5, Math.round(y - ball.radius) + 0.5, size - 1, size - 1);
+      return;
+    }
+
+    ctx.save();
+    if (this.theme.shapeStyle === 'glossy') {
+      // Drop shadow and a radial gradient for a 3D look
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.15)';
+      ctx.shadowBlur = 10;
+      ctx.shadowOffsetY = 3;
+
+      const gradient = ctx.createRadialGradient(x - ball.radius / 3, y - ball.radius / 3, 0, x, y, ball.radius);
+      gradient.addColorStop(0, center);
+      gradient.addColorStop(0.3, middle);
+      gradient.addColorStop(1, edge);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = center;
+    }
+    ctx.beginPath();
+    ctx.arc(x, y, ball.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    // Rim, or an outline in themes that have one
+    ctx.strokeStyle = this.theme.outline ?? rim;
+    ctx.lineWidth = this.theme.outline ? 2 : 1;
+    ctx.beginPath();
+    ctx.arc(x, y, ball.radius - 0.5, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  /**
+   * A brick or paddle shaped box in the theme's style. Glossy shapes get the
+   * given drop shadow and a highlight of `shine` opacity over their top half;
+   * pixel shapes get bevelled edges instead.
+   */
+  private drawSolid(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    cornerRadius: number,
+    colors: ColorStops,
+    shadowColor: string,
+    shadowBlur: number,
+    shadowOffsetY: number,
+    shine: number,
+  ) {
+    const ctx = this.ctx;
+    const style = this.theme.shapeStyle;
+
+    ctx.save();
+    if (style === 'glossy') {
+      ctx.shadowColor = shadowColor;
+      ctx.shadowBlur = shadowBlur;
+      ctx.shadowOffsetY = shadowOffsetY;
+      const gradient = ctx.createLinearGradient(x, y, x, y + height);
+      gradient.addColorStop(0, colors.start);
+      gradient.addColorStop(1, colors.end);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = colors.start;
+    }
+    this.drawRoundedRect(x, y, width, height, cornerRadius);
+    ctx.restore();
+
+    if (style === 'glossy') {
+      ctx.save();
+      const highlightGradient = ctx.createLinearGradient(x, y, x, y + height / 2);
+      highlightGradient.addColorStop(0, `rgba(255, 255, 255, ${shine})`);
+      highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = highlightGradient;
+      this.drawRoundedRect(x, y, width, height / 2, cornerRadius);
+      ctx.restore();
+    } else if (style === 'pixel') {
+      ctx.save();
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.fillRect(x, y, width, BEVEL);
+      ctx.fillRect(x, y, BEVEL, height);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+      ctx.fillRect(x, y + height - BEVEL, width, BEVEL);
+      ctx.fillRect(x + width - BEVEL, y, BEVEL, height);
+      ctx.restore();
+    }
+
+    if (this.theme.outline) {
+      ctx.save();
+      ctx.strokeStyle = this.theme.outline;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.roundRect(x + 1, y + 1, width - 2, height - 2, Math.max(0, cornerRadius - 1));
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  // Paddle and balls of another run, faded so they read as a ghost
+  private drawGhost(ghost: GameState) {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.globalAlpha = GHOST_ALPHA;
+    this.drawPaddle(ghost.paddle);
+    ghost.balls.forEach(ball => this.drawBall(ball));
+    ctx.restore();
+  }
+
+  private drawCapsule(capsule: Capsule) {
+    const ctx = this.ctx;
+    const { x, y } = capsule.position;
+    const powerUp = POWER_UPS[capsule.type];
+
+    ctx.save();
+    if (this.theme.shapeStyle === 'glossy') {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+      ctx.shadowBlur = 6;
+      ctx.shadowOffsetY = 2;
+    }
+    ctx.fillStyle = powerUp.color;
+    this.drawRoundedRect(x, y, capsule.width, capsule.height, this.theme.shapeStyle === 'pixel' ? 0 : capsule.height / 2);
+    ctx.restore();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold 10px ${this.theme.font}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(powerUp.icon, x + capsule.width / 2, y + capsule.height / 2 + 0.5);
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+  }
+
+  private drawLaserShot(shot: LaserShot) {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.strokeStyle = '#ff3b30';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(shot.position.x, shot.position.y);
+    ctx.lineTo(shot.position.x, shot.position.y + 10);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawLaserCannons(paddle: Paddle) {
+    const ctx = this.ctx;
+    ctx.fillStyle = '#ff3b30';
+    for (const x of [paddle.position.x + 8, paddle.position.x + paddle.width - 8]) {
+      this.drawRoundedRect(x - 3, paddle.position.y - 6, 6, 10, 2);
+    }
+  }
+
+  // UI card background: shadowed in glossy themes, outlined where the theme has outlines
+  private drawPanel(x: number, y: number, width: number, height: number, radius: number, fill: string, shadowBlur: number, shadowOffsetY: number) {
+    const ctx = this.ctx;
+    const cornerRadius = this.theme.shapeStyle === 'pixel' ? 0 : radius;
+
+    ctx.save();
+    if (this.theme.shapeStyle === 'glossy') {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.1)';
+      ctx.shadowBlur = shadowBlur;
+      ctx.shadowOffsetY = shadowOffsetY;
+    }
+    ctx.fillStyle = fill;
+    this.drawRoundedRect(x, y, width, height, cornerRadius);
+    ctx.restore();
+
+    if (this.theme.outline) {
+      ctx.save();
+      ctx.strokeStyle = this.theme.outline;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.roundRect(x + 1, y + 1, width - 2, height - 2, Math.max(0, cornerRadius - 1));
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  private drawRoundedRect(x: number, y: number, width: number, height: number, radius: number) {
+    const ctx = this.ctx;
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.lineTo(x + width - radius, y);
+    ctx.quadraticCurveTo(x + width, y, x + width, y + radius);
+    ctx.lineTo(x + width, y + height - radius);
+    ctx.quadraticCurveTo(x + width, y + height, x + width - radius, y + height);
+    ctx.lineTo(x + radius, y + height);
+    ctx.quadraticCurveTo(x, y + height, x, y + height - radius);
+    ctx.lineTo(x, y + radius);
+    ctx.quadraticCurveTo(x, y, x + radius, y);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  // In CSS pixels, on a canvas `width` by `height` of them
+  private drawUI(state: GameState, width: number, height: number) {
+    const ctx = this.ctx;
+
+    ctx.save();
+
+    // Score card
+    this.drawUICard(10, 10, 80, 35, `${state.score}`, 'Score');
+
+    // Lives card
+    this.drawUICard(10, 55, 80, 35, `${state.lives}`, 'Lives');
+
+    // Level card
+    this.drawUICard(width - 90, 10, 80, 35, `${state.level}`, 'Level');
+
+    // Difficulty card, so a run's difficulty is always on screen
+    this.drawUICard(width - 90, 55, 80, 35, DIFFICULTY_PRESETS[state.difficulty].name, 'Difficulty');
+
+    // Active power-ups, to the right of the score card
+    state.powerUps.forEach((powerUp, i) => {
+      const definition = POWER_UPS[powerUp.type];
+      const x = 100 + i * 58;
+      const icon = powerUp.stacks > 1 ? `${definition.icon}×${powerUp.stacks}` : definition.icon;
+      this.drawUICard(x, 10, 50, 35, icon, `${Math.ceil(powerUp.remaining)}s`);
+
+      // Time left
+      ctx.fillStyle = definition.color;
+      ctx.fillRect(x + 6, 48, 38 * (powerUp.remaining / definition.duration), 3);
+    });
+
+    ctx.restore();
+
+    // The title screen and game over are shown by the page, with the difficulty picker and start button
+    const accents = this.theme.ui;
+    switch (state.phase) {
+      case 'serving':
+        if (this.launchHint) {
+          this.drawPrompt(`${this.launchHint} to launch`, width, height);
+        }
+        break;
+      case 'paused':
+        this.drawOverlay('Paused', 'Tap to continue', accents.paused, width, height);
+        break;
+      case 'lifeLost':
+        this.drawOverlay('Life Lost', `${state.lives} ${state.lives === 1 ? 'life' : 'lives'} left`, accents.gameOver, width, height);
+        break;
+      case 'levelCleared':
+        if (state.levelSummary) {
+          this.drawLevelSummary(state.levelSummary, LEVEL_CLEARED_DURATION - state.phaseTimeLeft, width, height);
+        }
+        break;
+    }
+  }
+
+  /**
+   * How the level that was just cleared went, `elapsed` seconds into the
+   * celebration: the card rises in, its rows appear one by one, and once the
+   * celebration is over the prompt to go on shows.
+   */
+  private drawLevelSummary(summary: LevelSummary, elapsed: number, width: number, height: number) {
+    const ctx = this.ctx;
+    const { ui, font } = this.theme;
+    const rows: Array<[string, string]> = [
+      ['Blocks broken', `${summary.blocksBroken}`],
+      ['Time', formatDuration(summary.time)],
+      ['Lives lost', `${summary.livesLost}`],
+      ['Longest rally', `${summary.longestRally}`],
+      ['Time bonus', `+${summary.timeBonus}`],
+      ['No-death bonus', `+${summary.noDeathBonus}`],
+    ];
+    const rise = Math.min(1, elapsed / SUMMARY_RISE_TIME);
+    const eased = 1 - (1 - rise) ** 3;
+
+    ctx.save();
+    ctx.globalAlpha = eased;
+    ctx.fillStyle = ui.backdrop;
+    ctx.fillRect(0, 0, width, height);
+
+    const cardWidth = Math.min(320, width - 40);
+    const cardHeight = 100 + rows.length * SUMMARY_ROW_HEIGHT;
+    const x = (width - cardWidth) / 2;
+    const y = (height - cardHeight) / 2 + (1 - eased) * 40;
+    this.drawPanel(x, y, cardWidth, cardHeight, 16, ui.overlayCard, 20, 4);
+
+    ctx.textAlign = 'center';
+    ctx.fillStyle = ui.ready;
+    ctx.font = `bold 24px ${font}`;
+    ctx.fillText(`Level ${summary.level} Cleared!`, width / 2, y + 40);
+
+    rows.forEach(([label, value], i) => {
+      if (elapsed < SUMMARY_RISE_TIME + i * SUMMARY_ROW_DELAY) return;
+      const rowY = y + 72 + i * SUMMARY_ROW_HEIGHT;
+      ctx.fillStyle = ui.subtitle;
+      ctx.font = `14px ${font}`;
+      ctx.textAlign = 'left';
+      ctx.fillText(label, x + 24, rowY);
+      ctx.fillStyle = ui.value;
+      ctx.font = `bold 14px ${font}`;
+      ctx.textAlign = 'right';
+      ctx.fillText(value, x + cardWidth - 24, rowY);
+    });
+
+    if (this.launchHint && elapsed >= LEVEL_CLEARED_DURATION) {
+      ctx.fillStyle = ui.subtitle;
+      ctx.font = `14px ${font}`;
+      ctx.textAlign = 'center';
+      ctx.fillText(`${this.launchHint} for the next level`, width / 2, y + cardHeight - 18);
+    }
+    ctx.restore();
+  }
+
+  // One line of text in a small card low on the field, without dimming play
+  private drawPrompt(text: string, width: number, height: number) {
+    const ctx = this.ctx;
+    const { ui, font } = this.theme;
+
+    ctx.font = `14px ${font}`;
+    const cardWidth = Math.min(ctx.measureText(text).width + 32, width - 20);
+    const cardHeight = 32;
+    const y = height * 0.65;
+    this.drawPanel((width - cardWidth) / 2, y, cardWidth, cardHeight, 10, ui.card, 8, 2);
+
+    ctx.fillStyle = ui.value;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, width / 2, y + cardHeight / 2);
+    ctx.textBaseline = 'alphabetic';
+    ctx.textAlign = 'left';
+  }
+
+  private drawUICard(x: number, y: number, width: number, height: number, value: string, label: string) {
+    const ctx = this.ctx;
+
+    const { ui, font } = this.theme;
+    this.drawPanel(x, y, width, height, 8, ui.card, 8, 2);
+
+    // Value text
+    ctx.fillStyle = ui.value;
+    ctx.font = `bold 16px ${font}`;
+    ctx.textAlign = 'center';
+    ctx.fillText(value, x + width / 2, y + height / 2);
+
+    // Label text
+    ctx.fillStyle = ui.label;
+    ctx.font = `10px ${font}`;
+    ctx.fillText(label, x + width / 2, y + height - 5);
+
+    ctx.textAlign = 'left';
+  }
+
+  private drawOverlay(title: string, subtitle: string, accentColor: string, width: number, height: number) {
+    const ctx = this.ctx;
+    const { ui, font } = this.theme;
+    const centerX = width / 2;
+    const centerY = height / 2;
+
+    // Backdrop blur effect (simplified)
+    ctx.fillStyle = ui.backdrop;
+    ctx.fillRect(0, 0, width, height);
+
+    // Main card
+    const cardWidth = Math.min(300, width - 40);
+    const cardHeight = 120;
+    this.drawPanel(centerX - cardWidth / 2, centerY - cardHeight / 2, cardWidth, cardHeight, 16, ui.overlayCard, 20, 4);
+
+    // Title
+    ctx.fillStyle = accentColor;
+    ctx.font = `bold 24px ${font}`;
+    ctx.textAlign = 'center';
+    ctx.fillText(title, centerX, centerY - 10);
+
+    // Subtitle
+    ctx.fillStyle = ui.subtitle;
+    ctx.font = `16px ${font}`;
+    ctx.fillText(subtitle, centerX, centerY + 20);
+
+    ctx.textAlign = 'left';
+  }
+}
+
+// Deterministic pseudo-random value in [0, 1)
+function noise(seed: number): number {
+  const value = Math.sin(seed) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+// Minutes and seconds, e.g. 1:05
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+function interpolate(previous: Position, current: Position, alpha: number): Position {
+  return {
+    x: previous.x + (current.x - previous.x) * alpha,
+    y: previous.y + (current.y - previous.y) * alpha,
+  };
+}
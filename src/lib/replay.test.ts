@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { InputRecording } from '@/types/recording';
+import { createGameConfig } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { createGameState, startGame, stepSimulation } from '@/lib/simulation';
+import { InputRecorder, playRecording, serializeRecording } from '@/lib/inputRecording';
+import { ReplayFormatError, ReplayPlayer, SNAPSHOT_INTERVAL, buildSnapshots, createReplay, parseReplay, serializeReplay } from '@/lib/replay';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+
+function record(seed: number, ticks: number): InputRecording {
+  const recorder = new InputRecorder(seed, config);
+  let state = startGame(createGameState(config, undefined, seed));
+  recorder.recordCommand('start');
+  for (let tick = 0; tick < ticks; tick++) {
+    const controls = { moveLeft: false, moveRight: false, pointerX: state.balls[0]?.position.x, launch: tick % 300 === 0 };
+    recorder.recordTick(controls);
+    state = stepSimulation(state, controls, config).state;
+  }
+  return recorder.getRecording();
+}
+
+describe('replays', () => {
+  const recording = record(2024, SNAPSHOT_INTERVAL * 3 + 50);
+  const { snapshots, finalState } = buildSnapshots(recording);
+  const text = serializeReplay(createReplay(recording, snapshots, finalState));
+
+  it('takes a snapshot every interval', () => {
+    expect(snapshots.map(snapshot => snapshot.tick)).toEqual([0, 1, 2, 3].map(i => i * SNAPSHOT_INTERVAL));
+    expect(finalState).toEqual(playRecording(recording));
+  });
+
+  it('reads back what it writes', () => {
+    expect(parseReplay(text)).toEqual(JSON.parse(text));
+  });
+
+  it('accepts a bare recording and rebuilds its snapshots', () => {
+    const replay = parseReplay(serializeRecording(recording));
+    expect(replay.snapshots).toEqual(JSON.parse(JSON.stringify(snapshots)));
+    expect(replay.score).toBe(finalState.score);
+  });
+
+  it('seeks to the same state as playing straight through', () => {
+    const player = new ReplayPlayer(parseReplay(text));
+    player.seek(player.length);
+    expect(player.finished).toBe(true);
+    expect(player.state).toEqual(finalState);
+
+    const straight = new ReplayPlayer(parseReplay(text));
+    while (straight.tick < 1000) straight.step();
+    player.seek(1000);
+    expect(player.state).toEqual(straight.state);
+  });
+
+  it('rejects snapshots it could not start from', () => {
+    const replay = JSON.parse(text);
+    const corrupt = (change: (snapshot: { tick: number; state: Record<string, unknown> }) => void) => {
+      const copy = structuredClone(replay);
+      change(copy.snapshots[1]);
+      return () => parseReplay(JSON.stringify(copy));
+    };
+    expect(corrupt(snapshot => { snapshot.tick = -1; })).toThrow(ReplayFormatError);
+    expect(corrupt(snapshot => { delete snapshot.state.balls; })).toThrow(/snapshot/);
+    expect(corrupt(snapshot => { snapshot.state.seed = 1; })).toThrow(/snapshot/);
+  });
+
+  it('rejects files that are not replays', () => {
+    expect(() => parseReplay('[]')).toThrow(ReplayFormatError);
+    expect(() => parseReplay(JSON.stringify({ ...JSON.parse(text), version: 1 }))).toThrow(/unsupported version/);
+  });
+});
@@ -0,0 +1,167 @@
+import { GameConfig, GameState } from '@/types/game';
+import { InputRecording, REPLAY_FORMAT_VERSION, ReplayFile, ReplaySnapshot } from '@/types/recording';
+import { StepResult } from '@/lib/simulation';
+import { RecordingFormatError, RecordingPlayer, parseRecording, serializeRecording } from '@/lib/inputRecording';
+import { isGameConfig, isGameState } from '@/lib/stateValidation';
+
+// Ticks between snapshots; seeking re-simulates at most this many ticks
+export const SNAPSHOT_INTERVAL = 600; // 5 seconds
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(`Not a valid replay: ${message}`);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+export function createReplay(recording: InputRecording, snapshots: ReplaySnapshot[], finalState: GameState): ReplayFile {
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    recordedAt: new Date().toISOString(),
+    score: finalState.score,
+    level: finalState.level,
+    recording,
+    snapshots,
+  };
+}
+
+/**
+ * Rebuild a replay's snapshots by running its recording from the start,
+ * e.g. for a bare recording or one stored without snapshots.
+ */
+export function buildSnapshots(recording: InputRecording): { snapshots: ReplaySnapshot[]; finalState: GameState } {
+  const player = new RecordingPlayer(recording);
+  const snapshots: ReplaySnapshot[] = [];
+  while (!player.finished) {
+    if (player.tick % SNAPSHOT_INTERVAL === 0) {
+      snapshots.push(player.snapshot());
+    }
+    player.step();
+  }
+  return { snapshots, finalState: player.state };
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a replay file. A bare recording is accepted too and gets its
+ * snapshots rebuilt. Throws `ReplayFormatError` for anything else.
+ */
+export function parseReplay(text: string): ReplayFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('the file is not JSON');
+  }
+
+  if (typeof value === 'object' && value !== null && !('recording' in value)) {
+    const recording = parseRecordingOrThrow(text);
+    const { snapshots, finalState } = buildSnapshots(recording);
+    return createReplay(recording, snapshots, finalState);
+  }
+
+  const file = value as Partial<ReplayFile>;
+  if (file.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`unsupported version ${JSON.stringify(file.version)} (expected ${REPLAY_FORMAT_VERSION})`);
+  }
+  const recording = parseRecordingOrThrow(serializeRecording(file.recording as InputRecording));
+
+  const snapshots = file.snapshots;
+  if (!Array.isArray(snapshots) || !snapshots.every((snapshot, i) =>
+    typeof snapshot === 'object' && snapshot !== null &&
+    Number.isInteger(snapshot.tick) && snapshot.tick >= 0 && snapshot.tick <= recording.ticks &&
+    (i === 0 || snapshot.tick > snapshots[i - 1].tick)
+  )) {
+    throw new ReplayFormatError('"snapshots" must be a list of states in tick order');
+  }
+  // Seeking starts the simulation from these, so they get the same checks as a saved game
+  if (!snapshots.every(snapshot => isGameConfig(snapshot.config) && isGameState(snapshot.state) && snapshot.state.seed === recording.seed)) {
+    throw new ReplayFormatError('a snapshot\'s state or config is incomplete or inconsistent');
+  }
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    recordedAt: typeof file.recordedAt === 'string' ? file.recordedAt : new Date(0).toISOString(),
+    score: typeof file.score === 'number' ? file.score : 0,
+    level: typeof file.level === 'number' ? file.level : 1,
+    recording,
+    snapshots,
+  };
+}
+
+/**
+ * Plays a replay forwards tick by tick and seeks anywhere in it by
+ * restarting from the nearest earlier snapshot.
+ */
+export class ReplayPlayer {
+  private replay: ReplayFile;
+  private player!: RecordingPlayer;
+  // State one tick before `state`, for interpolated rendering
+  public previous!: GameState;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.seek(0);
+  }
+
+  public get state(): GameState {
+    return this.player.state;
+  }
+
+  public get config(): GameConfig {
+    return this.player.currentConfig;
+  }
+
+  public get tick(): number {
+    return this.player.tick;
+  }
+
+  public get length(): number {
+    return this.replay.recording.ticks;
+  }
+
+  public get finished(): boolean {
+    return this.player.finished;
+  }
+
+  public step(): StepResult | null {
+    if (this.player.finished) return null;
+    this.previous = this.player.state;
+    const result = this.player.step();
+    if (result.events.some(event => event.type === 'phaseChanged' && event.to === 'serving')) {
+      // The ball was reset to the paddle; don't interpolate across the jump
+      this.previous = result.state;
+    }
+    return result;
+  }
+
+  public seek(tick: number) {
+    const target = Math.max(0, Math.min(this.length, Math.round(tick)));
+
+    let snapshot: ReplaySnapshot | undefined;
+    for (const candidate of this.replay.snapshots) {
+      if (candidate.tick > target) break;
+      snapshot = candidate;
+    }
+
+    this.player = new RecordingPlayer(this.replay.recording, snapshot);
+    this.previous = this.player.state;
+    while (this.player.tick < target) {
+      this.step();
+    }
+  }
+}
+
+function parseRecordingOrThrow(text: string): InputRecording {
+  try {
+    return parseRecording(text);
+  } catch (error) {
+    if (error instanceof RecordingFormatError) {
+      throw new ReplayFormatError(error.message.replace(/^Not a valid recording: /, ''));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DifficultyId } from '@/types/difficulty';
+import { ReplayFile } from '@/types/recording';
+import { createGameConfig, difficultyTuning } from '@/lib/difficulty';
+import { InputRecorder } from '@/lib/inputRecording';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { createReplay } from '@/lib/replay';
+import { getStoredReplayInfo, loadStoredRecording, saveFinishedRun } from '@/lib/replayStorage';
+import { createGameState } from '@/lib/simulation';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('window', {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  },
+});
+
+// A finished run on `difficulty` that scored `score`
+function finishedRun(difficulty: DifficultyId, score: number, seed = 1): ReplayFile {
+  const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT, difficultyTuning(difficulty));
+  const recorder = new InputRecorder(seed, config);
+  recorder.recordCommand('start');
+  return createReplay(recorder.getRecording(), [], { ...createGameState(config, undefined, seed), score });
+}
+
+describe('stored replays', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  it('keeps the latest run and the best run on each difficulty', () => {
+    saveFinishedRun(finishedRun('normal', 500));
+    saveFinishedRun(finishedRun('insane', 100));
+    saveFinishedRun(finishedRun('normal', 300));
+
+    expect(getStoredReplayInfo('latest')?.score).toBe(300);
+    expect(getStoredReplayInfo('best:normal')?.score).toBe(500);
+    expect(getStoredReplayInfo('best:insane')?.score).toBe(100);
+    expect(getStoredReplayInfo('best:casual')).toBeNull();
+  });
+
+  it('loads a best run for racing on its own difficulty', () => {
+    saveFinishedRun(finishedRun('hard', 200, 77));
+    expect(loadStoredRecording('best:hard')).toMatchObject({ seed: 77, config: { difficulty: 'hard' } });
+    expect(loadStoredRecording('best:normal')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { DifficultyId } from '@/types/difficulty';
+import { InputRecording, REPLAY_FORMAT_VERSION, ReplayFile } from '@/types/recording';
+import { buildSnapshots } from '@/lib/replay';
+import { parseRecording, serializeRecording } from '@/lib/inputRecording';
+
+// The last run played, or the best one on a difficulty
+export type StoredReplayKind = 'latest' | `best:${DifficultyId}`;
+
+const STORAGE_KEY_PREFIX = 'bricks-and-balls:';
+
+// Stored without snapshots to stay well inside the storage quota; they are
+// rebuilt from the recording on load
+interface StoredReplay {
+  recordedAt: string;
+  score: number;
+  level: number;
+  recording: string;
+}
+
+/**
+ * Keep a finished run as the latest replay, and as the best one on its
+ * difficulty if it beat the stored best score there.
+ */
+export function saveFinishedRun(replay: ReplayFile) {
+  const stored: StoredReplay = {
+    recordedAt: replay.recordedAt,
+    score: replay.score,
+    level: replay.level,
+    recording: serializeRecording(replay.recording),
+  };
+
+  write('latest', stored);
+  const bestKind: StoredReplayKind = `best:${replay.recording.config.difficulty}`;
+  const best = read(bestKind);
+  if (!best || replay.score > best.score) {
+    write(bestKind, stored);
+  }
+}
+
+// Summary of a stored run without replaying it, e.g. to label a button
+export interface StoredReplayInfo {
+  score: number;
+  level: number;
+  recordedAt: string;
+}
+
+export function getStoredReplayInfo(kind: StoredReplayKind): StoredReplayInfo | null {
+  const stored = read(kind);
+  return stored && { score: stored.score, level: stored.level, recordedAt: stored.recordedAt };
+}
+
+export function loadStoredRecording(kind: StoredReplayKind): InputRecording | null {
+  const stored = read(kind);
+  if (!stored) return null;
+  try {
+    return parseRecording(stored.recording);
+  } catch {
+    return null;
+  }
+}
+
+export function loadStoredReplay(kind: StoredReplayKind): ReplayFile | null {
+  const stored = read(kind);
+  const recording = loadStoredRecording(kind);
+  if (!stored || !recording) return null;
+
+  return {
+    version: REPLAY_FORMAT_VERSION,
+    recordedAt: stored.recordedAt,
+    score: stored.score,
+    level: stored.level,
+    recording,
+    snapshots: buildSnapshots(recording).snapshots,
+  };
+}
+
+function read(kind: StoredReplayKind): StoredReplay | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY_PREFIX + kind);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredReplay;
+    return typeof stored.score === 'number' && typeof stored.recording === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+function write(kind: StoredReplayKind, stored: StoredReplay) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY_PREFIX + kind, JSON.stringify(stored));
+  } catch {
+    // Storage full or disabled; the run just isn't kept
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { SAVED_GAME_VERSION, SavedGame } from '@/types/savedGame';
+import { createGameConfig } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import { createGameState, pauseGame, startGame, stepSimulation } from '@/lib/simulation';
+import { InputRecorder } from '@/lib/inputRecording';
+import { SavedGameError, parseSavedGame } from '@/lib/savedGame';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+
+function savedGame(): SavedGame {
+  const recorder = new InputRecorder(77, config);
+  let state = startGame(createGameState(config, undefined, 77));
+  recorder.recordCommand('start');
+  for (let tick = 0; tick < 600; tick++) {
+    const controls = { moveLeft: false, moveRight: false, pointerX: state.balls[0]?.position.x, launch: tick === 0 };
+    recorder.recordTick(controls);
+    state = stepSimulation(state, controls, config).state;
+  }
+  state = pauseGame(state);
+  recorder.recordCommand('pause');
+  return { version: SAVED_GAME_VERSION, savedAt: new Date(0).toISOString(), config, state, recording: recorder.getRecording() };
+}
+
+describe('parseSavedGame', () => {
+  const game = savedGame();
+
+  it('reads back a saved run', () => {
+    expect(parseSavedGame(JSON.stringify(game))).toEqual(game);
+  });
+
+  it('rejects a state that does not belong to its recording', () => {
+    expect(() => parseSavedGame(JSON.stringify({ ...game, state: { ...game.state, seed: 1 } }))).toThrow(/does not belong/);
+  });
+
+  it('rejects an incomplete state or config', () => {
+    expect(() => parseSavedGame(JSON.stringify({ ...game, state: { ...game.state, paddle: null } }))).toThrow(SavedGameError);
+    expect(() => parseSavedGame(JSON.stringify({ ...game, config: { ...game.config, ballRadius: 'big' } }))).toThrow(/config/);
+  });
+
+  it('rejects a run that had already ended', () => {
+    const title = createGameState(config, undefined, 77);
+    expect(() => parseSavedGame(JSON.stringify({ ...game, state: title }))).toThrow(/already ended/);
+  });
+
+  it('rejects other versions and files that are not JSON', () => {
+    expect(() => parseSavedGame(JSON.stringify({ ...game, version: SAVED_GAME_VERSION + 1 }))).toThrow(/another version/);
+    expect(() => parseSavedGame('{')).toThrow(SavedGameError);
+  });
+});
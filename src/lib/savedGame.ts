@@ -0,0 +1,96 @@
+import { SAVED_GAME_VERSION, SavedGame } from '@/types/savedGame';
+import { isRunActive } from '@/lib/gamePhase';
+import { isGameConfig, isGameState } from '@/lib/stateValidation';
+import { RecordingFormatError, parseRecording, serializeRecording } from '@/lib/inputRecording';
+
+const STORAGE_KEY = 'bricks-and-balls:saved-game';
+
+export class SavedGameError extends Error {
+  constructor(message: string) {
+    super(`Saved game can't be restored: ${message}`);
+    this.name = 'SavedGameError';
+  }
+}
+
+/**
+ * Store an unfinished run. localStorage rather than IndexedDB because this
+ * runs from `pagehide`, where only synchronous writes are sure to land.
+ * Returns false if the browser refused the write.
+ */
+export function writeSavedGame(game: SavedGame): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(game));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The stored unfinished run, or null if there is none. A save this version
+ * can't restore is removed and reported with `SavedGameError`.
+ */
+export function readSavedGame(): SavedGame | null {
+  let text: string | null;
+  try {
+    text = window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+
+  try {
+    return parseSavedGame(text);
+  } catch (error) {
+    clearSavedGame();
+    throw error;
+  }
+}
+
+export function clearSavedGame() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
+
+export function parseSavedGame(text: string): SavedGame {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new SavedGameError('it is not JSON');
+  }
+
+  if (!isObject(value)) throw new SavedGameError('expected a JSON object');
+  if (value.version !== SAVED_GAME_VERSION) {
+    throw new SavedGameError(`it was saved by another version (${JSON.stringify(value.version)}, expected ${SAVED_GAME_VERSION})`);
+  }
+
+  let recording;
+  try {
+    recording = parseRecording(serializeRecording(value.recording as SavedGame['recording']));
+  } catch (error) {
+    if (error instanceof RecordingFormatError) throw new SavedGameError(error.message);
+    throw error;
+  }
+  if (recording.level) throw new SavedGameError('custom level runs are not saved');
+
+  if (!isGameConfig(value.config)) throw new SavedGameError('"config" is missing or incomplete');
+  if (!isGameState(value.state)) throw new SavedGameError('the game state is incomplete or inconsistent');
+  if (value.state.seed !== recording.seed) throw new SavedGameError('the game state does not belong to its recording');
+  if (!isRunActive(value.state.phase) || value.state.lives <= 0) throw new SavedGameError('the run had already ended');
+
+  return {
+    version: SAVED_GAME_VERSION,
+    savedAt: typeof value.savedAt === 'string' ? value.savedAt : new Date(0).toISOString(),
+    config: value.config,
+    state: value.state,
+    recording,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
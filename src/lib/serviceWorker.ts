@@ -0,0 +1,41 @@
+// Written into public/ by `npm run build`; see service-worker/generate.mjs
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Register the offline service worker and report when a newer version has
+ * installed and is waiting. Calling the `apply` callback activates it and
+ * reloads the page onto it. Only production builds have a service worker.
+ */
+export function registerServiceWorker(onUpdateReady: (apply: () => void) => void) {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  const notify = (worker: ServiceWorker) => {
+    onUpdateReady(() => {
+      let reloading = false;
+      navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (reloading) return;
+        reloading = true;
+        window.location.reload();
+      });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    .then(registration => {
+      // Without a controller this is the first install, not an update
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        notify(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            notify(installing);
+          }
+        });
+      });
+    })
+    .catch(error => console.warn('Service worker registration failed:', error));
+}
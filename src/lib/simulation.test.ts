@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Controls, GameState } from '@/types/game';
+import { createGameConfig } from '@/lib/difficulty';
+import { PLAYFIELD_HEIGHT, PLAYFIELD_WIDTH } from '@/lib/playfield';
+import {
+  FIXED_TIMESTEP,
+  LIFE_LOST_DURATION,
+  MAX_BALLS,
+  SimulationEvent,
+  cloneGameState,
+  createGameState,
+  pauseGame,
+  resumeGame,
+  spawnBall,
+  splitBalls,
+  startGame,
+  stepSimulation,
+} from '@/lib/simulation';
+
+const config = createGameConfig(PLAYFIELD_WIDTH, PLAYFIELD_HEIGHT);
+const IDLE: Controls = { moveLeft: false, moveRight: false };
+
+// Step until `done` holds, collecting the events on the way
+function stepUntil(state: GameState, controls: (state: GameState) => Controls, done: (state: GameState) => boolean) {
+  const events: SimulationEvent[] = [];
+  for (let tick = 0; tick < 120 * 60 && !done(state); tick++) {
+    const result = stepSimulation(state, controls(state), config);
+    state = result.state;
+    events.push(...result.events);
+  }
+  return { state, events };
+}
+
+describe('stepSimulation', () => {
+  it('is deterministic for a given seed', () => {
+    const run = () => stepUntil(
+      startGame(createGameState(config, undefined, 42)),
+      state => ({ ...IDLE, launch: true, pointerX: state.balls[0]?.position.x }),
+      state => state.time >= 20
+    ).state;
+    expect(run()).toEqual(run());
+  });
+
+  it('loses a life when the ball is missed, then serves again', () => {
+    const start = stepSimulation(startGame(createGameState(config, undefined, 1)), { ...IDLE, launch: true }, config).state;
+    // Keep the paddle on the far side from the ball
+    const dodge = (state: GameState) => ({ ...IDLE, pointerX: (state.balls[0]?.position.x ?? 0) < PLAYFIELD_WIDTH / 2 ? PLAYFIELD_WIDTH - 40 : 40 });
+
+    const lost = stepUntil(start, dodge, state => state.phase === 'lifeLost');
+    expect(lost.state.lives).toBe(start.lives - 1);
+    expect(lost.events).toContainEqual({ type: 'lifeLost', livesRemaining: start.lives - 1 });
+
+    const served = stepUntil(lost.state, () => IDLE, state => state.phase === 'serving');
+    expect(served.state.time - lost.state.time).toBeCloseTo(LIFE_LOST_DURATION, 1);
+  });
+
+  it('ends the game when the last life is lost', () => {
+    const dodge = (state: GameState) => ({
+      ...IDLE,
+      launch: true,
+      pointerX: (state.balls[0]?.position.x ?? 0) < PLAYFIELD_WIDTH / 2 ? PLAYFIELD_WIDTH - 40 : 40,
+    });
+    const over = stepUntil(startGame(createGameState(config, undefined, 1)), dodge, state => state.phase === 'gameOver');
+    expect(over.state.lives).toBe(0);
+    expect(over.events).toContainEqual({ type: 'gameOver', score: over.state.score });
+  });
+
+  it('leaves the title screen, pauses and game over alone', () => {
+    const title = createGameState(config, undefined, 1);
+    expect(stepSimulation(title, IDLE, config).state).toBe(title);
+    const paused = pauseGame(startGame(title));
+    expect(stepSimulation(paused, IDLE, config).state).toBe(paused);
+  });
+
+  it('carries the ball on the paddle until it is launched', () => {
+    let state = startGame(createGameState(config, undefined, 1));
+    for (let i = 0; i < 60; i++) {
+      state = stepSimulation(state, { ...IDLE, moveLeft: true }, config).state;
+    }
+    expect(state.phase).toBe('serving');
+    expect(state.balls[0].position.x).toBeCloseTo(state.paddle.position.x + state.paddle.width / 2);
+
+    state = stepSimulation(state, { ...IDLE, launch: true }, config).state;
+    expect(state.phase).toBe('playing');
+    expect(state.balls[0].velocity.y).toBeLessThan(0);
+  });
+
+  it('resumes into the phase it was paused in', () => {
+    const serving = startGame(createGameState(config, undefined, 1));
+    const paused = pauseGame(serving);
+    expect(paused).toMatchObject({ phase: 'paused', resumePhase: 'serving' });
+    expect(resumeGame(paused)).toMatchObject({ phase: 'serving', resumePhase: null });
+    expect(stepSimulation(resumeGame(paused), IDLE, config).state.time).toBeCloseTo(FIXED_TIMESTEP);
+  });
+});
+
+describe('multiple balls', () => {
+  const launched = () => stepSimulation(startGame(createGameState(config, undefined, 1)), { ...IDLE, launch: true }, config).state;
+  const speedOf = ({ velocity }: { velocity: { x: number; y: number } }) => Math.hypot(velocity.x, velocity.y);
+
+  it('splits a ball into copies fanning out at the same speed', () => {
+    const state = launched();
+    const split = splitBalls(state);
+    expect(split.balls).toHaveLength(3);
+    expect(new Set(split.balls.map(ball => ball.id)).size).toBe(3);
+    expect(new Set(split.balls.map(ball => Math.atan2(ball.velocity.y, ball.velocity.x).toFixed(3))).size).toBe(3);
+    for (const ball of split.balls) {
+      expect(speedOf(ball)).toBeCloseTo(speedOf(state.balls[0]));
+    }
+    expect(state.balls).toHaveLength(1);
+  });
+
+  it('never puts more than MAX_BALLS in play', () => {
+    let state = launched();
+    for (let i = 0; i < 4; i++) state = splitBalls(state);
+    expect(state.balls).toHaveLength(MAX_BALLS);
+    expect(spawnBall(state, { x: 400, y: 300 }).balls).toHaveLength(MAX_BALLS);
+  });
+
+  it('only loses a life with the last ball', () => {
+    const state = cloneGameState(spawnBall(launched(), { x: 400, y: 300 }, { x: 0, y: -300 }));
+    // Send the first ball straight down, well clear of the paddle
+    state.balls[0].position = { x: 20, y: PLAYFIELD_HEIGHT - 40 };
+    state.balls[0].velocity = { x: 0, y: 600 };
+
+    const { state: after, events } = stepUntil(state, () => ({ ...IDLE, pointerX: PLAYFIELD_WIDTH - 60 }), next => next.balls.length === 1);
+    expect(events).toContainEqual({ type: 'ballLost', ballId: state.balls[0].id, ballsRemaining: 1 });
+    expect(after.lives).toBe(state.lives);
+    expect(after.phase).toBe('playing');
+  });
+});
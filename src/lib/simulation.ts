@@ -0,0 +1,987 @@
+import {
+  GameState,
+  Ball,
+  Block,
+  Capsule,
+  Controls,
+  GameConfig,
+  GamePhase,
+  LaserShot,
+  LevelSummary,
+  PendingRegeneration,
+  Position,
+  PowerUpType,
+  Velocity,
+} from '@/types/game';
+import { Rect, SweepHit, circleIntersectsRect, reflect, sweepCircleRect } from '@/lib/collision';
+import { createSpatialGrid, insertIntoGrid, queryGrid, removeFromGrid } from '@/lib/spatialGrid';
+import { BLOCK_TYPE_RULES, EXPLOSION_RANGE, REGENERATION_DELAY, REGENERATION_RETRY } from '@/lib/blockTypes';
+import {
+  CAPSULE_DROP_CHANCE,
+  CAPSULE_FALL_SPEED,
+  CAPSULE_HEIGHT,
+  CAPSULE_WIDTH,
+  LASER_INTERVAL,
+  LASER_SPEED,
+  activatePowerUp,
+  ballSpeedFactor,
+  choosePowerUp,
+  hasPowerUp,
+  paddleWidthFactor,
+  tickPowerUps,
+} from '@/lib/powerUps';
+import { buildLevelBlocks, getBundledLevel } from '@/lib/levels';
+import { BALL_RADIUS, DIFFICULTY_PRESETS } from '@/lib/difficulty';
+import { createSeed, nextRandom } from '@/lib/random';
+import { checkTransition } from '@/lib/gamePhase';
+import { createLevelStats, summarizeLevel } from '@/lib/levelBonus';
+import { LevelDefinition } from '@/types/level';
+
+// Simulation advances in fixed ticks so physics is identical at any refresh rate
+export const FIXED_TIMESTEP = 1 / 120; // seconds per tick
+
+export type SimulationEvent =
+  | { type: 'paddleHit'; position: Position }
+  | { type: 'wallHit'; position: Position }
+  | { type: 'blockHit'; block: Block; index: number }
+  | { type: 'blockDestroyed'; block: Block; index: number; cause: 'ball' | 'explosion'; points: number }
+  | { type: 'blockRegenerated'; block: Block; index: number }
+  | { type: 'explosion'; position: Position; radius: number }
+  | { type: 'powerUpCollected'; powerUp: PowerUpType }
+  | { type: 'powerUpExpired'; powerUp: PowerUpType }
+  | { type: 'laserFired'; position: Position }
+  | { type: 'ballLost'; ballId: number; ballsRemaining: number }
+  | { type: 'lifeLost'; livesRemaining: number }
+  | { type: 'levelCompleted'; level: number; summary: LevelSummary }
+  | { type: 'gameOver'; score: number }
+  | { type: 'phaseChanged'; from: GamePhase; to: GamePhase };
+
+export interface StepResult {
+  state: GameState;
+  events: SimulationEvent[];
+}
+
+// Working copy of a state for the duration of a single step. Everything
+// reachable from `state` may be mutated; the caller's state never is.
+interface StepContext {
+  state: GameState;
+  config: GameConfig;
+  events: SimulationEvent[];
+}
+
+type Contact =
+  | { kind: 'wall'; hit: SweepHit }
+  | { kind: 'paddle'; hit: SweepHit }
+  | { kind: 'block'; hit: SweepHit; index: number };
+
+// Upper bound on contacts resolved in one tick; a ball wedged between
+// surfaces stops for the rest of the tick instead of looping forever
+const MAX_CONTACTS_PER_TICK = 8;
+// Distance the ball is pushed off a surface after contact
+const CONTACT_SEPARATION = 0.01;
+const DEFAULT_BACKGROUND = '#f8f9fa';
+// Level files give ball speeds for Normal; other difficulties scale them
+const LEVEL_FILE_BALL_SPEED = DIFFICULTY_PRESETS.normal.ballSpeed;
+const BALL_COLOR = '#ff6b6b';
+// Most balls in play at once; splitting stops adding balls past this
+export const MAX_BALLS = 12;
+// Angle between the copies a ball splits into
+const SPLIT_ANGLE = 0.35; // radians
+const LASER_RADIUS = 2;
+// How long the break after losing a life lasts
+export const LIFE_LOST_DURATION = 1; // seconds
+// How long the celebration after clearing a level runs before the player can go on
+export const LEVEL_CLEARED_DURATION = 1.5; // seconds
+
+/**
+ * A fresh game at level 1, on the title screen with the ball ready to
+ * serve. `firstLevel` replaces the bundled first level, e.g. to play-test a
+ * layout from the editor. Every random choice in the run comes from `seed`,
+ * so the same seed and inputs replay identically.
+ */
+export function createGameState(config: GameConfig, firstLevel?: LevelDefinition, seed: number = createSeed()): GameState {
+  const paddleWidth = config.paddleWidth;
+  const paddleHeight = 15;
+  const paddleX = (config.canvasWidth - paddleWidth) / 2;
+  const paddleY = config.canvasHeight - paddleHeight - 20;
+
+  const state: GameState = {
+    phase: 'title',
+    resumePhase: null,
+    phaseTimeLeft: 0,
+    score: 0,
+    lives: config.maxLives,
+    level: 1,
+    difficulty: config.difficulty,
+    ballSpeed: config.ballSpeed,
+    background: DEFAULT_BACKGROUND,
+    balls: [{
+      id: 0,
+      position: {
+        x: config.canvasWidth / 2,
+        y: paddleY - config.ballRadius - CONTACT_SEPARATION,
+      },
+      velocity: { x: 0, y: 0 },
+      radius: config.ballRadius,
+      color: BALL_COLOR,
+      stuckOffset: 0,
+    }],
+    nextBallId: 1,
+    paddle: {
+      position: { x: paddleX, y: paddleY },
+      width: paddleWidth,
+      baseWidth: paddleWidth,
+      height: paddleHeight,
+      speed: config.paddleSpeed,
+      color: '#4ecdc4',
+    },
+    blocks: [],
+    blockGrid: createSpatialGrid([], config.canvasWidth, config.canvasHeight),
+    remainingBlocks: 0,
+    levelStats: createLevelStats(0, 0),
+    levelSummary: null,
+    regenerations: [],
+    capsules: [],
+    powerUps: [],
+    laserShots: [],
+    laserCooldown: 0,
+    time: 0,
+    seed,
+    rngState: seed,
+  };
+
+  return loadLevel(state, 1, config, firstLevel);
+}
+
+/**
+ * Set up `levelNumber`: the matching level from the bundled pack if there is
+ * one, otherwise a procedurally generated layout. Pass `definition` to play
+ * a specific level instead.
+ */
+export function loadLevel(
+  state: GameState,
+  levelNumber: number,
+  config: GameConfig,
+  definition: LevelDefinition | null = getBundledLevel(levelNumber)
+): GameState {
+  const blocks = definition
+    ? buildLevelBlocks(definition, config)
+    : generateBlocks(levelNumber, config);
+
+  return setBlocks({
+    ...state,
+    level: levelNumber,
+    levelStats: createLevelStats(state.time, countRequiredBlocks(blocks)),
+    ballSpeed: definition?.ballSpeed !== undefined
+      ? definition.ballSpeed * (config.ballSpeed / LEVEL_FILE_BALL_SPEED)
+      : config.ballSpeed + config.levelSpeedIncrease * (levelNumber - 1),
+    background: definition?.background ?? DEFAULT_BACKGROUND,
+  }, blocks, config);
+}
+
+// Row colors of generated levels, top to bottom
+export const BRICK_COLORS = [
+  '#ff6b6b', '#feca57', '#48cae4', '#06ffa5',
+  '#ff9ff3', '#f38ba8', '#a6e3a1', '#fab387',
+];
+
+export function generateBlocks(level: number, config: GameConfig): Block[] {
+  const blocks: Block[] = [];
+  const blockWidth = 80;
+  const blockHeight = 25;
+  const padding = 5;
+  const offsetTop = 60;
+  const offsetLeft = 35;
+
+  const rows = Math.min(3 + Math.floor(level / 2), 8);
+  const cols = Math.floor((config.canvasWidth - 2 * offsetLeft) / (blockWidth + padding));
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      blocks.push({
+        type: 'standard',
+        position: {
+          x: offsetLeft + c * (blockWidth + padding),
+          y: offsetTop + r * (blockHeight + padding),
+        },
+        width: blockWidth,
+        height: blockHeight,
+        color: BRICK_COLORS[r % BRICK_COLORS.length],
+        destroyed: false,
+        points: (rows - r) * 10,
+        hitPoints: 1,
+        maxHitPoints: 1,
+        timesDestroyed: 0,
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Replace the block field, rebuilding the broadphase grid and remaining-block
+ * count to match. Pending regenerations belong to the old field and are
+ * dropped. `cellSize` overrides the grid resolution.
+ */
+export function setBlocks(state: GameState, blocks: Block[], config: GameConfig, cellSize?: number): GameState {
+  return {
+    ...state,
+    blocks,
+    blockGrid: createSpatialGrid(blocks, config.canvasWidth, config.canvasHeight, cellSize),
+    remainingBlocks: countRequiredBlocks(blocks),
+    regenerations: [],
+  };
+}
+
+export function cloneGameState(state: GameState): GameState {
+  // Blocks are treated as immutable records and replaced when they change,
+  // so copying the array is enough to isolate the clone
+  return {
+    ...state,
+    balls: state.balls.map(cloneBall),
+    paddle: { ...state.paddle, position: { ...state.paddle.position } },
+    blocks: state.blocks.slice(),
+    levelStats: { ...state.levelStats },
+    capsules: state.capsules.map(capsule => ({ ...capsule, position: { ...capsule.position } })),
+    laserShots: state.laserShots.map(shot => ({ position: { ...shot.position } })),
+  };
+}
+
+// Leave the title screen for the first serve
+export function startGame(state: GameState): GameState {
+  if (!checkTransition(state.phase, 'serving')) return state;
+  return { ...state, phase: 'serving' };
+}
+
+export function pauseGame(state: GameState): GameState {
+  if (!checkTransition(state.phase, 'paused')) return state;
+  return { ...state, phase: 'paused', resumePhase: state.phase };
+}
+
+// Back to whatever the game was doing when it was paused
+export function resumeGame(state: GameState): GameState {
+  if (state.resumePhase === null || !checkTransition(state.phase, state.resumePhase)) return state;
+  return { ...state, phase: state.resumePhase, resumePhase: null };
+}
+
+/**
+ * Advance the simulation by one tick. The input state is left untouched;
+ * the returned state is a new object along with everything that happened
+ * during the tick. Nothing happens on the title screen, while paused or
+ * after a game over.
+ */
+export function stepSimulation(
+  state: GameState,
+  controls: Controls,
+  config: GameConfig,
+  deltaTime: number = FIXED_TIMESTEP
+): StepResult {
+  if (state.phase === 'title' || state.phase === 'paused' || state.phase === 'gameOver') {
+    return { state, events: [] };
+  }
+
+  const ctx: StepContext = { state: cloneGameState(state), config, events: [] };
+  ctx.state.time += deltaTime;
+
+  switch (ctx.state.phase) {
+    case 'serving':
+      stepServing(ctx, controls, deltaTime);
+      break;
+    case 'playing':
+      stepPlaying(ctx, controls, deltaTime);
+      break;
+    case 'lifeLost':
+      stepLifeLost(ctx, deltaTime);
+      break;
+    case 'levelCleared':
+      stepLevelCleared(ctx, controls, deltaTime);
+      break;
+  }
+
+  return { state: ctx.state, events: ctx.events };
+}
+
+/**
+ * Add a ball to play. `velocity` defaults to the usual launch angle at the
+ * current ball speed, and the ball matches the size of those already in
+ * play. Does nothing once `MAX_BALLS` are in play.
+ */
+export function spawnBall(
+  state: GameState,
+  position: Position,
+  velocity?: Velocity,
+  radius = state.balls[0]?.radius ?? BALL_RADIUS
+): GameState {
+  const next = cloneGameState(state);
+  addBall(next, position, velocity ?? getLaunchVelocity(currentBallSpeed(next)), radius);
+  return next;
+}
+
+/**
+ * Split every ball in play into `count` balls fanning out around its
+ * current heading, up to `MAX_BALLS` in total. Balls held by a sticky
+ * paddle split into launched copies and stay held themselves.
+ */
+export function splitBalls(state: GameState, count = 3): GameState {
+  const next = cloneGameState(state);
+  splitBallsInPlace(next, count);
+  return next;
+}
+
+function cloneBall(ball: Ball): Ball {
+  return { ...ball, position: { ...ball.position }, velocity: { ...ball.velocity } };
+}
+
+function addBall(state: GameState, position: Position, velocity: Velocity, radius: number) {
+  if (state.balls.length >= MAX_BALLS) return;
+
+  state.balls.push({
+    id: state.nextBallId++,
+    position: { ...position },
+    velocity: { ...velocity },
+    radius,
+    color: BALL_COLOR,
+  });
+}
+
+function splitBallsInPlace(state: GameState, count: number) {
+  for (const ball of state.balls.slice()) {
+    const heading = ball.stuckOffset === undefined
+      ? ball.velocity
+      : getPaddleBounceVelocity(state, ball.stuckOffset);
+    const speed = Math.hypot(heading.x, heading.y);
+    const angle = Math.atan2(heading.y, heading.x);
+
+    // Copies alternate either side of the original: +1, -1, +2, -2, ...
+    for (let copy = 1; copy < count; copy++) {
+      const step = Math.ceil(copy / 2) * (copy % 2 === 1 ? 1 : -1);
+      const copyAngle = angle + step * SPLIT_ANGLE;
+      addBall(state, ball.position, { x: Math.cos(copyAngle) * speed, y: Math.sin(copyAngle) * speed }, ball.radius);
+    }
+  }
+}
+
+function getLaunchVelocity(speed: number): Velocity {
+  // 45° up and to the right
+  const component = speed / Math.SQRT2;
+  return { x: component, y: -component };
+}
+
+function updatePaddle(ctx: StepContext, controls: Controls, deltaTime: number) {
+  const paddle = ctx.state.paddle;
+
+  if (controls.pointerX !== undefined) {
+    // Touch/mouse control
+    paddle.position.x = controls.pointerX - paddle.width / 2;
+  } else if (controls.moveAxis !== undefined) {
+    // Analog control: speed in proportion to how far the stick is pushed
+    paddle.position.x += paddle.speed * Math.max(-1, Math.min(1, controls.moveAxis)) * deltaTime;
+  } else {
+    // Digital control: keys or D-pad
+    if (controls.moveLeft) {
+      paddle.position.x -= paddle.speed * deltaTime;
+    }
+    if (controls.moveRight) {
+      paddle.position.x += paddle.speed * deltaTime;
+    }
+  }
+
+  // Keep paddle within bounds
+  paddle.position.x = Math.max(0, Math.min(ctx.config.canvasWidth - paddle.width, paddle.position.x));
+}
+
+function updateBalls(ctx: StepContext, controls: Controls, deltaTime: number, paddleStart: Position) {
+  const inPlay: Ball[] = [];
+  const lost: Ball[] = [];
+  for (const ball of ctx.state.balls) {
+    if (ball.stuckOffset !== undefined) {
+      holdBall(ctx, ball, controls);
+      inPlay.push(ball);
+    } else {
+      (moveBall(ctx, ball, deltaTime, paddleStart) ? inPlay : lost).push(ball);
+    }
+  }
+  ctx.state.balls = inPlay;
+
+  // A life is only lost once the last ball has gone
+  if (inPlay.length === 0) {
+    loseLife(ctx);
+    return;
+  }
+  for (const ball of lost) {
+    ctx.events.push({ type: 'ballLost', ballId: ball.id, ballsRemaining: inPlay.length });
+  }
+}
+
+// Move one ball through the tick; false once it has left the bottom of the field
+function moveBall(ctx: StepContext, ball: Ball, deltaTime: number, paddleStart: Position): boolean {
+  const { state, config } = ctx;
+  const paddle = state.paddle;
+
+  // The paddle has already moved this tick; sweep the ball against it in the
+  // paddle's frame of reference so they can't pass through each other
+  const paddleTravel = {
+    x: paddle.position.x - paddleStart.x,
+    y: paddle.position.y - paddleStart.y,
+  };
+
+  let elapsed = 0; // fraction of the tick already simulated
+  let shoved = false;
+  for (let i = 0; i < MAX_CONTACTS_PER_TICK && elapsed < 1; i++) {
+    const remaining = 1 - elapsed;
+    const delta = {
+      x: ball.velocity.x * deltaTime * remaining,
+      y: ball.velocity.y * deltaTime * remaining,
+    };
+    const paddleRect: Rect = {
+      position: {
+        x: paddleStart.x + paddleTravel.x * elapsed,
+        y: paddleStart.y + paddleTravel.y * elapsed,
+      },
+      width: paddle.width,
+      height: paddle.height,
+    };
+    const paddleDelta = { x: paddleTravel.x * remaining, y: paddleTravel.y * remaining };
+
+    const contact = findEarliestContact(ctx, ball, delta, paddleRect, paddleDelta);
+    if (!contact) {
+      ball.position.x += delta.x;
+      ball.position.y += delta.y;
+      elapsed = 1;
+      break;
+    }
+
+    const { time, normal } = contact.hit;
+    ball.position.x += delta.x * time;
+    ball.position.y += delta.y * time;
+    elapsed += remaining * time;
+
+    if (contact.kind === 'wall') {
+      ball.velocity = reflect(ball.velocity, normal);
+      ctx.events.push({ type: 'wallHit', position: { ...ball.position } });
+    } else if (contact.kind === 'paddle') {
+      const paddleX = paddleRect.position.x + paddleDelta.x * time;
+      bounceOffPaddle(ctx, ball, normal, paddleX, paddleTravel.x / deltaTime);
+      shoved = shoved || normal.y >= 0;
+    } else if (hasPowerUp(state.powerUps, 'piercingBall') && BLOCK_TYPE_RULES[state.blocks[contact.index].type].breakable) {
+      // Carry on through the brick; it's out of the grid now so the next
+      // sweep won't find it again
+      destroyBlock(ctx, contact.index);
+      continue;
+    } else {
+      ball.velocity = reflect(ball.velocity, normal);
+      hitBlock(ctx, contact.index);
+    }
+
+    if (ball.stuckOffset !== undefined) break;
+
+    // Step off the surface so the next sweep starts clear of it
+    ball.position.x += normal.x * CONTACT_SEPARATION;
+    ball.position.y += normal.y * CONTACT_SEPARATION;
+  }
+
+  // Touch input can teleport the paddle; once the ball has been carried clear
+  // of it, don't let it keep that speed
+  const speed = currentBallSpeed(state);
+  if (shoved && Math.abs(ball.velocity.x) > speed) {
+    ball.velocity.x = Math.sign(ball.velocity.x) * speed;
+  }
+
+  // Keep the ball inside the side and top walls even if the tick ran out of contacts
+  ball.position.x = Math.max(ball.radius, Math.min(config.canvasWidth - ball.radius, ball.position.x));
+  ball.position.y = Math.max(ball.radius, ball.position.y);
+
+  // Bottom boundary
+  return ball.position.y < config.canvasHeight + ball.radius;
+}
+
+function findEarliestContact(
+  ctx: StepContext,
+  ball: Ball,
+  delta: Position,
+  paddleRect: Rect,
+  paddleDelta: Position
+): Contact | null {
+  const { state, config } = ctx;
+  let earliest: Contact | null = null;
+
+  const wallHit = sweepWalls(ball.position, delta, ball.radius, config.canvasWidth);
+  if (wallHit) {
+    earliest = { kind: 'wall', hit: wallHit };
+  }
+
+  const relativeDelta = { x: delta.x - paddleDelta.x, y: delta.y - paddleDelta.y };
+  const paddleHit = sweepCircleRect(ball.position, relativeDelta, ball.radius, paddleRect);
+  if (paddleHit && (!earliest || paddleHit.time < earliest.hit.time)) {
+    earliest = { kind: 'paddle', hit: paddleHit };
+  }
+
+  const path: Rect = {
+    position: {
+      x: Math.min(ball.position.x, ball.position.x + delta.x) - ball.radius,
+      y: Math.min(ball.position.y, ball.position.y + delta.y) - ball.radius,
+    },
+    width: Math.abs(delta.x) + ball.radius * 2,
+    height: Math.abs(delta.y) + ball.radius * 2,
+  };
+
+  for (const i of queryGrid(state.blockGrid, path)) {
+    const block = state.blocks[i];
+    if (block.destroyed) continue;
+
+    const blockHit = sweepCircleRect(ball.position, delta, ball.radius, block);
+    if (blockHit && (!earliest || blockHit.time < earliest.hit.time)) {
+      earliest = { kind: 'block', hit: blockHit, index: i };
+    }
+  }
+
+  return earliest;
+}
+
+// Side and top walls as half-planes; the bottom is open
+function sweepWalls(start: Position, delta: Position, radius: number, width: number): SweepHit | null {
+  let earliest: SweepHit | null = null;
+  const consider = (time: number, normal: Position) => {
+    const clamped = Math.max(0, time);
+    if (clamped <= 1 && (!earliest || clamped < earliest.time)) {
+      earliest = { time: clamped, normal };
+    }
+  };
+
+  if (delta.x < 0) consider((radius - start.x) / delta.x, { x: 1, y: 0 });
+  if (delta.x > 0) consider((width - radius - start.x) / delta.x, { x: -1, y: 0 });
+  if (delta.y < 0) consider((radius - start.y) / delta.y, { x: 0, y: 1 });
+
+  return earliest;
+}
+
+function bounceOffPaddle(ctx: StepContext, ball: Ball, normal: Position, paddleX: number, paddleVelocityX: number) {
+  const { state } = ctx;
+  const paddle = state.paddle;
+
+  if (normal.y >= 0) {
+    // Side (or underside) contact: knock the ball away at least as fast as
+    // the paddle is moving so the paddle can't pass through it
+    ball.velocity = reflect(ball.velocity, normal);
+    if (normal.x !== 0) {
+      ball.velocity.x = Math.sign(normal.x) * Math.max(Math.abs(ball.velocity.x), Math.abs(paddleVelocityX));
+    }
+    ctx.events.push({ type: 'paddleHit', position: { ...ball.position } });
+    return;
+  }
+
+  const paddleCenter = paddleX + paddle.width / 2;
+  ctx.events.push({ type: 'paddleHit', position: { ...ball.position } });
+  const stats = state.levelStats;
+  stats.rally++;
+  stats.longestRally = Math.max(stats.longestRally, stats.rally);
+
+  if (hasPowerUp(state.powerUps, 'stickyPaddle')) {
+    ball.stuckOffset = ball.position.x - paddleCenter;
+    ball.velocity = { x: 0, y: 0 };
+    return;
+  }
+
+  ball.velocity = getPaddleBounceVelocity(state, ball.position.x - paddleCenter);
+}
+
+// Angle the ball by where it meets the paddle: steeper towards the edges
+function getPaddleBounceVelocity(state: GameState, offset: number): Velocity {
+  const speed = currentBallSpeed(state);
+  const hitPos = Math.max(-1, Math.min(1, offset / (state.paddle.width / 2)));
+  const x = hitPos * speed * 0.8;
+  return { x, y: -Math.sqrt(speed * speed - x * x) };
+}
+
+// Level speed adjusted by any active slow/fast power-up
+function currentBallSpeed(state: GameState): number {
+  return state.ballSpeed * ballSpeedFactor(state.powerUps);
+}
+
+// Carry a ball held by the sticky paddle, launching it on request
+function holdBall(ctx: StepContext, ball: Ball, controls: Controls) {
+  carryBall(ctx, ball);
+  if (controls.launch) {
+    releaseBall(ctx, ball);
+  }
+}
+
+// Keep a held ball sitting on the paddle where it was caught
+function carryBall(ctx: StepContext, ball: Ball) {
+  const { paddle } = ctx.state;
+  const offset = Math.max(-paddle.width / 2, Math.min(paddle.width / 2, ball.stuckOffset!));
+
+  ball.position = {
+    x: paddle.position.x + paddle.width / 2 + offset,
+    y: paddle.position.y - ball.radius - CONTACT_SEPARATION,
+  };
+}
+
+function releaseBall(ctx: StepContext, ball: Ball) {
+  if (ball.stuckOffset === undefined) return;
+
+  ball.velocity = getPaddleBounceVelocity(ctx.state, ball.stuckOffset);
+  ball.stuckOffset = undefined;
+}
+
+function hitBlock(ctx: StepContext, index: number) {
+  const block = ctx.state.blocks[index];
+  const rules = BLOCK_TYPE_RULES[block.type];
+
+  if (rules.breakable && block.hitPoints <= 1) {
+    destroyBlock(ctx, index);
+    return;
+  }
+
+  const damaged = rules.breakable ? { ...block, hitPoints: block.hitPoints - 1 } : block;
+  ctx.state.blocks[index] = damaged;
+  addScore(ctx, rules.score(damaged, false));
+  ctx.events.push({ type: 'blockHit', block: damaged, index });
+}
+
+/**
+ * Break a block regardless of its remaining hit points. Explosive blocks
+ * take their neighbours with them, which can set off further explosions.
+ */
+function destroyBlock(ctx: StepContext, index: number) {
+  const queue = [index];
+
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    const block = ctx.state.blocks[next];
+    const rules = BLOCK_TYPE_RULES[block.type];
+    if (block.destroyed || !rules.breakable) continue;
+
+    const destroyed = { ...block, destroyed: true, hitPoints: 0, timesDestroyed: block.timesDestroyed + 1 };
+    ctx.state.blocks[next] = destroyed;
+    ctx.state.blockGrid = removeFromGrid(ctx.state.blockGrid, next, destroyed);
+    if (rules.required) ctx.state.remainingBlocks--;
+    ctx.state.levelStats.blocksBroken++;
+    const points = rules.score(destroyed, true);
+    addScore(ctx, points);
+    ctx.events.push({ type: 'blockDestroyed', block: destroyed, index: next, cause: next === index ? 'ball' : 'explosion', points });
+    maybeDropCapsule(ctx, destroyed);
+
+    if (block.type === 'regenerating') {
+      scheduleRegeneration(ctx, next, ctx.state.time + REGENERATION_DELAY);
+    }
+
+    if (block.type === 'explosive') {
+      const blast: Rect = {
+        position: { x: block.position.x - EXPLOSION_RANGE, y: block.position.y - EXPLOSION_RANGE },
+        width: block.width + EXPLOSION_RANGE * 2,
+        height: block.height + EXPLOSION_RANGE * 2,
+      };
+      ctx.events.push({
+        type: 'explosion',
+        position: { x: block.position.x + block.width / 2, y: block.position.y + block.height / 2 },
+        radius: Math.max(blast.width, blast.height) / 2,
+      });
+      queue.push(...queryGrid(ctx.state.blockGrid, blast));
+    }
+  }
+}
+
+function scheduleRegeneration(ctx: StepContext, index: number, at: number) {
+  const pending = ctx.state.regenerations.slice();
+  let i = pending.length;
+  while (i > 0 && pending[i - 1].at > at) i--;
+  pending.splice(i, 0, { index, at });
+  ctx.state.regenerations = pending;
+}
+
+function regenerateBlocks(ctx: StepContext) {
+  const { state } = ctx;
+  if (state.regenerations.length === 0 || state.regenerations[0].at > state.time) return;
+
+  const due: PendingRegeneration[] = [];
+  let i = 0;
+  while (i < state.regenerations.length && state.regenerations[i].at <= state.time) {
+    due.push(state.regenerations[i++]);
+  }
+  state.regenerations = state.regenerations.slice(i);
+
+  for (const { index } of due) {
+    const block = state.blocks[index];
+
+    // Don't rebuild a brick around a ball
+    if (state.balls.some(ball => circleIntersectsRect(ball.position, ball.radius, block))) {
+      scheduleRegeneration(ctx, index, state.time + REGENERATION_RETRY);
+      continue;
+    }
+
+    const restored = { ...block, destroyed: false, hitPoints: block.maxHitPoints };
+    state.blocks[index] = restored;
+    state.blockGrid = insertIntoGrid(state.blockGrid, index, restored);
+    state.remainingBlocks++;
+    ctx.events.push({ type: 'blockRegenerated', block: restored, index });
+  }
+}
+
+function maybeDropCapsule(ctx: StepContext, block: Block) {
+  if (random(ctx) >= CAPSULE_DROP_CHANCE) return;
+
+  ctx.state.capsules.push({
+    type: choosePowerUp(random(ctx)),
+    position: {
+      x: block.position.x + (block.width - CAPSULE_WIDTH) / 2,
+      y: block.position.y + (block.height - CAPSULE_HEIGHT) / 2,
+    },
+    width: CAPSULE_WIDTH,
+    height: CAPSULE_HEIGHT,
+  });
+}
+
+// Let capsules fall, collecting any that reach the paddle
+function updateCapsules(ctx: StepContext, deltaTime: number) {
+  const { state, config } = ctx;
+  if (state.capsules.length === 0) return;
+
+  const paddle = state.paddle;
+  const falling: Capsule[] = [];
+  for (const capsule of state.capsules) {
+    capsule.position.y += CAPSULE_FALL_SPEED * deltaTime;
+
+    const caught = capsule.position.x < paddle.position.x + paddle.width &&
+      capsule.position.x + capsule.width > paddle.position.x &&
+      capsule.position.y < paddle.position.y + paddle.height &&
+      capsule.position.y + capsule.height > paddle.position.y;
+
+    if (caught) {
+      collectPowerUp(ctx, capsule.type);
+    } else if (capsule.position.y < config.canvasHeight) {
+      falling.push(capsule);
+    }
+  }
+  state.capsules = falling;
+}
+
+function collectPowerUp(ctx: StepContext, type: PowerUpType) {
+  const { state } = ctx;
+  ctx.events.push({ type: 'powerUpCollected', powerUp: type });
+
+  if (type === 'extraLife') {
+    state.lives++;
+    return;
+  }
+  if (type === 'multiBall') {
+    splitBallsInPlace(state, 3);
+    return;
+  }
+
+  state.powerUps = activatePowerUp(state.powerUps, type);
+  applyPowerUpModifiers(ctx);
+}
+
+function updatePowerUps(ctx: StepContext, deltaTime: number) {
+  const { state } = ctx;
+  if (state.powerUps.length === 0) return;
+
+  const { active, expired } = tickPowerUps(state.powerUps, deltaTime);
+  state.powerUps = active;
+  if (expired.length === 0) return;
+
+  for (const type of expired) {
+    ctx.events.push({ type: 'powerUpExpired', powerUp: type });
+  }
+  if (expired.includes('stickyPaddle')) {
+    state.balls.forEach(ball => releaseBall(ctx, ball));
+  }
+  applyPowerUpModifiers(ctx);
+}
+
+// Bring paddle width and ball speed in line with the active power-ups
+function applyPowerUpModifiers(ctx: StepContext) {
+  const { state, config } = ctx;
+  const paddle = state.paddle;
+
+  const width = paddle.baseWidth * paddleWidthFactor(state.powerUps);
+  if (width !== paddle.width) {
+    const center = paddle.position.x + paddle.width / 2;
+    paddle.width = width;
+    paddle.position.x = Math.max(0, Math.min(config.canvasWidth - width, center - width / 2));
+  }
+
+  for (const ball of state.balls) {
+    const speed = Math.hypot(ball.velocity.x, ball.velocity.y);
+    if (speed > 0) {
+      const scale = currentBallSpeed(state) / speed;
+      ball.velocity.x *= scale;
+      ball.velocity.y *= scale;
+    }
+  }
+}
+
+function updateLasers(ctx: StepContext, deltaTime: number) {
+  const { state } = ctx;
+  const paddle = state.paddle;
+
+  if (hasPowerUp(state.powerUps, 'laserPaddle')) {
+    state.laserCooldown -= deltaTime;
+    if (state.laserCooldown <= 0) {
+      state.laserCooldown = LASER_INTERVAL;
+      for (const x of [paddle.position.x + 8, paddle.position.x + paddle.width - 8]) {
+        state.laserShots.push({ position: { x, y: paddle.position.y } });
+      }
+      ctx.events.push({ type: 'laserFired', position: { x: paddle.position.x + paddle.width / 2, y: paddle.position.y } });
+    }
+  }
+
+  if (state.laserShots.length === 0) return;
+
+  const flying: LaserShot[] = [];
+  for (const shot of state.laserShots) {
+    const delta = { x: 0, y: -LASER_SPEED * deltaTime };
+    const path: Rect = {
+      position: { x: shot.position.x - LASER_RADIUS, y: shot.position.y + delta.y - LASER_RADIUS },
+      width: LASER_RADIUS * 2,
+      height: -delta.y + LASER_RADIUS * 2,
+    };
+
+    let target = -1;
+    let earliest = Infinity;
+    for (const i of queryGrid(state.blockGrid, path)) {
+      const hit = sweepCircleRect(shot.position, delta, LASER_RADIUS, state.blocks[i]);
+      if (hit && hit.time < earliest) {
+        earliest = hit.time;
+        target = i;
+      }
+    }
+
+    if (target >= 0) {
+      hitBlock(ctx, target);
+    } else if (shot.position.y + delta.y > 0) {
+      shot.position.y += delta.y;
+      flying.push(shot);
+    }
+  }
+  state.laserShots = flying;
+}
+
+// Drop every capsule, shot and effect, e.g. when a life is lost
+function clearPowerUps(ctx: StepContext) {
+  const { state } = ctx;
+  state.capsules = [];
+  state.laserShots = [];
+  state.powerUps = [];
+  state.laserCooldown = 0;
+  state.balls.forEach(ball => { ball.stuckOffset = undefined; });
+  applyPowerUpModifiers(ctx);
+}
+
+// Next number in [0, 1) from the state's PRNG. Never use Math.random in the
+// simulation: replays depend on every random choice coming from the seed.
+function random(ctx: StepContext): number {
+  const { value, state } = nextRandom(ctx.state.rngState);
+  ctx.state.rngState = state;
+  return value;
+}
+
+function addScore(ctx: StepContext, points: number) {
+  ctx.state.score += points;
+}
+
+// Move to another phase; false, and nothing changes, if the move isn't allowed
+function enterPhase(ctx: StepContext, to: GamePhase, duration = 0): boolean {
+  const from = ctx.state.phase;
+  if (!checkTransition(from, to)) return false;
+  ctx.state.phase = to;
+  ctx.state.phaseTimeLeft = duration;
+  ctx.events.push({ type: 'phaseChanged', from, to });
+  return true;
+}
+
+// The ball rides the paddle until the player launches it
+function stepServing(ctx: StepContext, controls: Controls, deltaTime: number) {
+  regenerateBlocks(ctx);
+  updatePaddle(ctx, controls, deltaTime);
+  ctx.state.balls.forEach(ball => carryBall(ctx, ball));
+
+  if (controls.launch) {
+    for (const ball of ctx.state.balls) {
+      ball.velocity = getLaunchVelocity(currentBallSpeed(ctx.state));
+      ball.stuckOffset = undefined;
+    }
+    enterPhase(ctx, 'playing');
+  }
+}
+
+function stepPlaying(ctx: StepContext, controls: Controls, deltaTime: number) {
+  regenerateBlocks(ctx);
+  const paddleStart = { ...ctx.state.paddle.position };
+  updatePaddle(ctx, controls, deltaTime);
+  updateBalls(ctx, controls, deltaTime, paddleStart);
+  updateCapsules(ctx, deltaTime);
+  updateLasers(ctx, deltaTime);
+  updatePowerUps(ctx, deltaTime);
+  // Losing the last ball ends play for this tick, even if it took the last brick with it
+  if (ctx.state.phase === 'playing' && ctx.state.remainingBlocks <= 0) {
+    completeLevel(ctx);
+  }
+}
+
+// The field holds still for a moment after a lost life, then the next serve
+function stepLifeLost(ctx: StepContext, deltaTime: number) {
+  ctx.state.phaseTimeLeft = Math.max(0, ctx.state.phaseTimeLeft - deltaTime);
+  if (ctx.state.phaseTimeLeft > 0) return;
+
+  resetBall(ctx);
+  enterPhase(ctx, 'serving');
+}
+
+// The level's summary shows until the celebration is over and the player launches
+function stepLevelCleared(ctx: StepContext, controls: Controls, deltaTime: number) {
+  ctx.state.phaseTimeLeft = Math.max(0, ctx.state.phaseTimeLeft - deltaTime);
+  if (ctx.state.phaseTimeLeft > 0 || !controls.launch) return;
+
+  ctx.state = loadLevel(ctx.state, ctx.state.level + 1, ctx.config);
+  ctx.state.levelSummary = null;
+  clearPowerUps(ctx);
+  resetBall(ctx);
+  enterPhase(ctx, 'serving');
+}
+
+function loseLife(ctx: StepContext) {
+  ctx.state.lives--;
+  ctx.state.levelStats.livesLost++;
+  ctx.state.levelStats.rally = 0;
+  ctx.events.push({ type: 'lifeLost', livesRemaining: ctx.state.lives });
+  clearPowerUps(ctx);
+  if (ctx.state.lives > 0) {
+    enterPhase(ctx, 'lifeLost', LIFE_LOST_DURATION);
+  } else {
+    gameOver(ctx);
+  }
+}
+
+// Back to a single ball sitting on the middle of the paddle, ready to serve
+function resetBall(ctx: StepContext) {
+  const { state, config } = ctx;
+
+  state.balls = [];
+  addBall(state, { x: 0, y: 0 }, { x: 0, y: 0 }, config.ballRadius);
+  state.balls[0].stuckOffset = 0;
+  carryBall(ctx, state.balls[0]);
+}
+
+// Bonuses go through `addScore` like brick points, so everything that follows the score sees them
+function completeLevel(ctx: StepContext) {
+  const summary = summarizeLevel(ctx.state.level, ctx.state.levelStats, ctx.state.time);
+  addScore(ctx, summary.timeBonus + summary.noDeathBonus);
+  ctx.state.levelSummary = summary;
+  ctx.events.push({ type: 'levelCompleted', level: ctx.state.level, summary });
+  enterPhase(ctx, 'levelCleared', LEVEL_CLEARED_DURATION);
+}
+
+function gameOver(ctx: StepContext) {
+  enterPhase(ctx, 'gameOver');
+  ctx.events.push({ type: 'gameOver', score: ctx.state.score });
+}
+
+function countRequiredBlocks(blocks: Block[]): number {
+  let count = 0;
+  for (const block of blocks) {
+    if (!block.destroyed && BLOCK_TYPE_RULES[block.type].required) count++;
+  }
+  return count;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Block } from '@/types/game';
+import { createSpatialGrid, insertIntoGrid, queryGrid, removeFromGrid } from '@/lib/spatialGrid';
+
+function block(x: number, y: number, width = 40, height = 20): Block {
+  return {
+    type: 'standard',
+    position: { x, y },
+    width,
+    height,
+    color: '#ff6b6b',
+    destroyed: false,
+    points: 10,
+    hitPoints: 1,
+    maxHitPoints: 1,
+    timesDestroyed: 0,
+  };
+}
+
+describe('spatial grid', () => {
+  const blocks = [block(10, 10), block(200, 10), block(60, 100, 100, 20)];
+  const grid = createSpatialGrid(blocks, 320, 192, 64);
+
+  it('finds the blocks near an area', () => {
+    expect(queryGrid(grid, { position: { x: 0, y: 0 }, width: 20, height: 20 })).toEqual([0]);
+    expect(queryGrid(grid, { position: { x: 130, y: 110 }, width: 4, height: 4 })).toEqual([2]);
+  });
+
+  it('lists a block spanning several cells once', () => {
+    expect(queryGrid(grid, { position: { x: 0, y: 64 }, width: 320, height: 64 })).toEqual([2]);
+  });
+
+  it('leaves out destroyed blocks', () => {
+    const withDestroyed = createSpatialGrid([{ ...blocks[0], destroyed: true }], 320, 192, 64);
+    expect(queryGrid(withDestroyed, { position: { x: 0, y: 0 }, width: 320, height: 192 })).toEqual([]);
+  });
+
+  it('clamps anything off the field into the edge cells', () => {
+    const offField = createSpatialGrid([block(-100, 500)], 320, 192, 64);
+    expect(queryGrid(offField, { position: { x: 0, y: 180 }, width: 1, height: 1 })).toEqual([0]);
+  });
+
+  it('updates without changing the grid it was given', () => {
+    const area = { position: { x: 200, y: 10 }, width: 40, height: 20 };
+    const removed = removeFromGrid(grid, 1, blocks[1]);
+    expect(queryGrid(removed, area)).toEqual([]);
+    expect(queryGrid(grid, area)).toEqual([1]);
+    expect(queryGrid(insertIntoGrid(removed, 1, blocks[1]), area)).toEqual([1]);
+  });
+});
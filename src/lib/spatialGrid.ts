@@ -0,0 +1,77 @@
+import { Block, SpatialGrid } from '@/types/game';
+import { Rect } from '@/lib/collision';
+
+// Default cell edge in playfield units; roughly one standard brick wide
+export const DEFAULT_CELL_SIZE = 64;
+
+export function createSpatialGrid(
+  blocks: Block[],
+  width: number,
+  height: number,
+  cellSize = DEFAULT_CELL_SIZE
+): SpatialGrid {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const cells: number[][] = Array.from({ length: columns * rows }, () => []);
+  const grid: SpatialGrid = { cellSize, columns, rows, cells };
+
+  blocks.forEach((block, index) => {
+    if (block.destroyed) return;
+    forEachCell(grid, block, cell => {
+      cells[cell].push(index);
+    });
+  });
+
+  return grid;
+}
+
+export function insertIntoGrid(grid: SpatialGrid, index: number, rect: Rect): SpatialGrid {
+  const cells = grid.cells.slice();
+  forEachCell(grid, rect, cell => {
+    if (!cells[cell].includes(index)) {
+      cells[cell] = [...cells[cell], index];
+    }
+  });
+  return { ...grid, cells };
+}
+
+export function removeFromGrid(grid: SpatialGrid, index: number, rect: Rect): SpatialGrid {
+  const cells = grid.cells.slice();
+  forEachCell(grid, rect, cell => {
+    cells[cell] = cells[cell].filter(i => i !== index);
+  });
+  return { ...grid, cells };
+}
+
+/**
+ * Indices of every block whose cells overlap `area`, each listed once.
+ * Candidates still need a narrowphase test.
+ */
+export function queryGrid(grid: SpatialGrid, area: Rect): number[] {
+  const found = new Set<number>();
+  forEachCell(grid, area, cell => {
+    for (const index of grid.cells[cell]) {
+      found.add(index);
+    }
+  });
+  return Array.from(found);
+}
+
+// Visit the cell of every grid square `rect` overlaps. Anything outside the
+// grid is clamped into the edge cells so off-field blocks are still found.
+function forEachCell(grid: SpatialGrid, rect: Rect, visit: (cell: number) => void) {
+  const minColumn = clampCell(Math.floor(rect.position.x / grid.cellSize), grid.columns);
+  const maxColumn = clampCell(Math.floor((rect.position.x + rect.width) / grid.cellSize), grid.columns);
+  const minRow = clampCell(Math.floor(rect.position.y / grid.cellSize), grid.rows);
+  const maxRow = clampCell(Math.floor((rect.position.y + rect.height) / grid.cellSize), grid.rows);
+
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let column = minColumn; column <= maxColumn; column++) {
+      visit(row * grid.columns + column);
+    }
+  }
+}
+
+function clampCell(cell: number, count: number): number {
+  return Math.max(0, Math.min(count - 1, cell));
+}
@@ -0,0 +1,111 @@
+import { BlockType, GameConfig, GamePhase, GameState, PowerUpType } from '@/types/game';
+import { BLOCK_TYPES, BLOCK_TYPE_RULES } from '@/lib/blockTypes';
+import { POWER_UP_TYPES } from '@/lib/powerUps';
+import { isDifficulty } from '@/lib/difficulty';
+import { GAME_PHASES } from '@/lib/gamePhase';
+
+// Checks for states and configs read back from storage or files, which may be stale, corrupt or hand-edited
+
+export function isGameConfig(value: unknown): value is GameConfig {
+  return isObject(value) &&
+    ['canvasWidth', 'canvasHeight', 'ballSpeed', 'levelSpeedIncrease', 'ballRadius', 'paddleSpeed', 'paddleWidth', 'maxLives']
+      .every(key => isNumber(value[key])) &&
+    isDifficulty(value.difficulty);
+}
+
+// Structural check of a deserialized state, down to every brick and grid cell
+export function isGameState(value: unknown): value is GameState {
+  if (!isObject(value)) return false;
+
+  const scalarsOk =
+    isPhase(value.phase) && (value.resumePhase === null || isPhase(value.resumePhase)) &&
+    (value.phase === 'paused') === (value.resumePhase !== null) && isNumber(value.phaseTimeLeft) &&
+    isCount(value.score) && isCount(value.lives) && isCount(value.level) && (value.level as number) >= 1 &&
+    isNumber(value.ballSpeed) && typeof value.background === 'string' &&
+    isCount(value.nextBallId) && isCount(value.remainingBlocks) &&
+    isNumber(value.laserCooldown) && isNumber(value.time) &&
+    isUint32(value.seed) && isUint32(value.rngState) && isDifficulty(value.difficulty);
+  if (!scalarsOk) return false;
+
+  const stats = value.levelStats;
+  if (!isObject(stats) || !isNumber(stats.startTime) ||
+      !['bricksToClear', 'blocksBroken', 'livesLost', 'rally', 'longestRally'].every(key => isCount(stats[key]))) {
+    return false;
+  }
+  const summary = value.levelSummary;
+  if ((summary === null) !== (value.phase !== 'levelCleared' && value.resumePhase !== 'levelCleared')) return false;
+  if (summary !== null && (!isObject(summary) || !isNumber(summary.time) ||
+      !['level', 'blocksBroken', 'livesLost', 'longestRally', 'timeBonus', 'noDeathBonus'].every(key => isCount(summary[key])))) {
+    return false;
+  }
+
+  const paddle = value.paddle;
+  if (!isObject(paddle) || !isPosition(paddle.position) ||
+      !['width', 'baseWidth', 'height', 'speed'].every(key => isNumber(paddle[key]))) {
+    return false;
+  }
+
+  if (!Array.isArray(value.balls) || !value.balls.every(ball =>
+    isObject(ball) && isCount(ball.id) && isPosition(ball.position) && isPosition(ball.velocity) && isNumber(ball.radius) &&
+    (ball.stuckOffset === undefined || isNumber(ball.stuckOffset))
+  )) {
+    return false;
+  }
+
+  const blocks = value.blocks;
+  if (!Array.isArray(blocks) || !blocks.every(block =>
+    isObject(block) && BLOCK_TYPES.includes(block.type as BlockType) &&
+    isPosition(block.position) && isNumber(block.width) && isNumber(block.height) &&
+    typeof block.destroyed === 'boolean' && isNumber(block.points) &&
+    isCount(block.hitPoints) && isCount(block.maxHitPoints) && isCount(block.timesDestroyed)
+  )) {
+    return false;
+  }
+  const typedBlocks = blocks as GameState['blocks'];
+  const required = typedBlocks.filter(block => !block.destroyed && BLOCK_TYPE_RULES[block.type].required).length;
+  if (required !== value.remainingBlocks) return false;
+
+  const grid = value.blockGrid;
+  if (!isObject(grid) || !isNumber(grid.cellSize) || !isCount(grid.columns) || !isCount(grid.rows) ||
+      !Array.isArray(grid.cells) || grid.cells.length !== (grid.columns as number) * (grid.rows as number) ||
+      !grid.cells.every(cell => Array.isArray(cell) && cell.every(index => isCount(index) && index < blocks.length))) {
+    return false;
+  }
+
+  return Array.isArray(value.regenerations) &&
+    value.regenerations.every(entry => isObject(entry) && isCount(entry.index) && entry.index < blocks.length && isNumber(entry.at)) &&
+    Array.isArray(value.capsules) &&
+    value.capsules.every(capsule => isObject(capsule) && isPowerUpType(capsule.type) && isPosition(capsule.position)) &&
+    Array.isArray(value.powerUps) &&
+    value.powerUps.every(powerUp => isObject(powerUp) && isPowerUpType(powerUp.type) && isNumber(powerUp.remaining) && isCount(powerUp.stacks)) &&
+    Array.isArray(value.laserShots) &&
+    value.laserShots.every(shot => isObject(shot) && isPosition(shot.position));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isUint32(value: unknown): value is number {
+  return isCount(value) && value <= 0xffffffff;
+}
+
+function isPosition(value: unknown): boolean {
+  return isObject(value) && isNumber(value.x) && isNumber(value.y);
+}
+
+function isPhase(value: unknown): boolean {
+  return GAME_PHASES.includes(value as GamePhase);
+}
+
+function isPowerUpType(value: unknown): boolean {
+  return POWER_UP_TYPES.includes(value as PowerUpType);
+}
@@ -0,0 +1,204 @@
+import { ColorStops, RenderTheme, ThemeId, ThemePreference } from '@/types/theme';
+
+const SYSTEM_FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", system-ui';
+
+// Gradients for the colors the bundled levels use; anything else is drawn flat
+const GLOSSY_BRICK_COLORS: Record<string, ColorStops> = {
+  '#ff6b6b': { start: '#ff6b6b', end: '#ee5a24' },
+  '#feca57': { start: '#feca57', end: '#ff9f43' },
+  '#48cae4': { start: '#48cae4', end: '#0077b6' },
+  '#06ffa5': { start: '#06ffa5', end: '#00d4aa' },
+  '#ff9ff3': { start: '#ff9ff3', end: '#f368e0' },
+  '#f38ba8': { start: '#f38ba8', end: '#e55381' },
+  '#a6e3a1': { start: '#a6e3a1', end: '#74c69d' },
+  '#fab387': { start: '#fab387', end: '#f79256' },
+};
+
+function glossyBrick(color: string): ColorStops {
+  return GLOSSY_BRICK_COLORS[color.toLowerCase()] ?? flat(color);
+}
+
+function flat(color: string): ColorStops {
+  return { start: color, end: color };
+}
+
+const APPLE_THEME: RenderTheme = {
+  id: 'apple',
+  name: 'Apple',
+  shapeStyle: 'glossy',
+  font: SYSTEM_FONT,
+  background: levelBackground => levelBackground,
+  brickColors: glossyBrick,
+  steel: { start: '#c7ccd4', end: '#8a929e' },
+  paddle: { start: '#007AFF', end: '#0056CC' },
+  ball: { center: '#ffffff', middle: '#f0f0f0', edge: '#d0d0d0', rim: 'rgba(0, 0, 0, 0.1)' },
+  outline: null,
+  ui: {
+    card: 'rgba(255, 255, 255, 0.9)',
+    value: '#1D1D1F',
+    label: '#8E8E93',
+    backdrop: 'rgba(248, 249, 250, 0.95)',
+    overlayCard: '#ffffff',
+    subtitle: '#8E8E93',
+    ready: '#007AFF',
+    gameOver: '#FF3B30',
+    paused: '#8E8E93',
+  },
+  effects: { trail: 'rgba(0, 122, 255, 0.35)', text: '#1D1D1F', spark: '#ffd60a', flash: '#ffd60a' },
+};
+
+const DARK_THEME: RenderTheme = {
+  id: 'dark',
+  name: 'Dark',
+  shapeStyle: 'glossy',
+  font: SYSTEM_FONT,
+  // Level backgrounds are all light
+  background: () => '#10151c',
+  brickColors: glossyBrick,
+  steel: { start: '#8e949c', end: '#5c636d' },
+  paddle: { start: '#0A84FF', end: '#0060DF' },
+  ball: { center: '#ffffff', middle: '#e5e5ea', edge: '#a1a1a6', rim: 'rgba(255, 255, 255, 0.25)' },
+  outline: null,
+  ui: {
+    card: 'rgba(28, 28, 30, 0.9)',
+    value: '#f5f5f7',
+    label: '#98989d',
+    backdrop: 'rgba(16, 21, 28, 0.92)',
+    overlayCard: '#1c1c1e',
+    subtitle: '#98989d',
+    ready: '#0A84FF',
+    gameOver: '#FF453A',
+    paused: '#98989d',
+  },
+  effects: { trail: 'rgba(10, 132, 255, 0.4)', text: '#f5f5f7', spark: '#ffd60a', flash: '#ffd60a' },
+};
+
+const RETRO_THEME: RenderTheme = {
+  id: 'retro',
+  name: 'Retro',
+  shapeStyle: 'pixel',
+  font: '"Courier New", Courier, monospace',
+  background: () => '#0c0c24',
+  brickColors: flat,
+  steel: flat('#9c9c9c'),
+  paddle: flat('#bcbcbc'),
+  ball: { center: '#fcfcfc', middle: '#fcfcfc', edge: '#fcfcfc', rim: '#000000' },
+  outline: '#000000',
+  ui: {
+    card: 'rgba(0, 0, 0, 0.85)',
+    value: '#fcfcfc',
+    label: '#bcbcbc',
+    backdrop: 'rgba(0, 0, 0, 0.85)',
+    overlayCard: '#000000',
+    subtitle: '#bcbcbc',
+    ready: '#3cbcfc',
+    gameOver: '#f83800',
+    paused: '#bcbcbc',
+  },
+  effects: { trail: 'rgba(252, 252, 252, 0.4)', text: '#fcfcfc', spark: '#fca044', flash: '#fcfcfc' },
+};
+
+// Black field, solid colors and white outlines so every object stands out
+const HIGH_CONTRAST_THEME: RenderTheme = {
+  id: 'high-contrast',
+  name: 'High contrast',
+  shapeStyle: 'flat',
+  font: SYSTEM_FONT,
+  background: () => '#000000',
+  brickColors: flat,
+  steel: flat('#9e9e9e'),
+  paddle: flat('#ffffff'),
+  ball: { center: '#ffff00', middle: '#ffff00', edge: '#ffff00', rim: '#000000' },
+  outline: '#ffffff',
+  ui: {
+    card: '#000000',
+    value: '#ffffff',
+    label: '#ffff00',
+    backdrop: 'rgba(0, 0, 0, 0.9)',
+    overlayCard: '#000000',
+    subtitle: '#ffffff',
+    ready: '#00ffff',
+    gameOver: '#ff6b6b',
+    paused: '#ffffff',
+  },
+  effects: { trail: 'rgba(255, 255, 0, 0.5)', text: '#ffffff', spark: '#ffff00', flash: '#ffffff' },
+};
+
+export const THEMES: Record<ThemeId, RenderTheme> = {
+  apple: APPLE_THEME,
+  dark: DARK_THEME,
+  retro: RETRO_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME,
+};
+
+export const DEFAULT_THEME = APPLE_THEME;
+
+// In the order they are offered to the player
+export const THEME_PREFERENCES: Array<{ value: ThemePreference; label: string }> = [
+  { value: 'system', label: 'System' },
+  { value: 'apple', label: APPLE_THEME.name },
+  { value: 'dark', label: DARK_THEME.name },
+  { value: 'retro', label: RETRO_THEME.name },
+  { value: 'high-contrast', label: HIGH_CONTRAST_THEME.name },
+];
+
+const STORAGE_KEY = 'bricks-and-balls:theme';
+const THEME_VERSION = 1;
+// Matches while the operating system is set to dark mode
+export const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+export function resolveTheme(preference: ThemePreference, prefersDark: boolean): RenderTheme {
+  if (preference === 'system') {
+    return prefersDark ? DARK_THEME : APPLE_THEME;
+  }
+  return THEMES[preference];
+}
+
+// The theme to draw with right now in this browser
+export function currentTheme(preference = loadThemePreference()): RenderTheme {
+  return resolveTheme(preference, systemPrefersDark());
+}
+
+export function systemPrefersDark(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia?.(DARK_SCHEME_QUERY).matches === true;
+}
+
+// Page styling follows the canvas: globals.css switches its variables on this attribute
+export function applyPageTheme(theme: RenderTheme) {
+  document.documentElement.dataset.theme = theme.id;
+}
+
+export function loadThemePreference(): ThemePreference {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return stored?.version === THEME_VERSION && isThemePreference(stored.theme) ? stored.theme : 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+export function saveThemePreference(preference: ThemePreference) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: THEME_VERSION, theme: preference }));
+  } catch {
+    // The theme still applies for this visit
+  }
+}
+
+/**
+ * Inline script for the document head that sets the page theme before
+ * first paint, so a dark page doesn't flash light while the app loads.
+ * Mirrors `loadThemePreference` and `resolveTheme`.
+ */
+export function themeInitScript(): string {
+  const ids = JSON.stringify(Object.keys(THEMES));
+  return `try{var s=JSON.parse(localStorage.getItem(${JSON.stringify(STORAGE_KEY)})||'null');` +
+    `var t=s&&s.version===${THEME_VERSION}&&${ids}.indexOf(s.theme)>=0?s.theme:'system';` +
+    `if(t==='system')t=matchMedia(${JSON.stringify(DARK_SCHEME_QUERY)}).matches?'dark':'apple';` +
+    `document.documentElement.dataset.theme=t}catch(e){}`;
+}
+
+function isThemePreference(value: unknown): value is ThemePreference {
+  return value === 'system' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value));
+}
@@ -0,0 +1,12 @@
+// How brick colors are chosen: the level's own, or a palette that stays distinct with color blindness
+export type BrickPalette = 'level' | 'colorblind';
+
+// 'system' follows the operating system's reduced-motion setting
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export interface AccessibilitySettings {
+  brickPalette: BrickPalette;
+  brickGlyphs: boolean; // a shape on each brick that tells its color apart without seeing color
+  motion: MotionPreference;
+  gameSpeed: number; // multiplier on real time; below 1 slows the whole game down
+}
@@ -0,0 +1,18 @@
+export interface AudioSettings {
+  masterVolume: number; // 0 to 1
+  sfxVolume: number; // 0 to 1, relative to the master volume
+  musicVolume: number; // 0 to 1, relative to the master volume
+  muted: boolean;
+}
+
+// Sound effects the game can play, with what makes each one vary
+export type SoundEffect =
+  | { type: 'paddleHit' }
+  | { type: 'wallHit' }
+  | { type: 'brickHit' } // a brick took damage but didn't break
+  | { type: 'brickBreak'; row: number; combo: number } // row counted from the top; combo = breaks since the ball left the paddle
+  | { type: 'explosion' }
+  | { type: 'powerUp' }
+  | { type: 'lifeLost' }
+  | { type: 'levelClear' }
+  | { type: 'gameOver' };
@@ -0,0 +1,12 @@
+export type DifficultyId = 'casual' | 'normal' | 'hard' | 'insane';
+
+// A named set of tuning values the player can pick before a run
+export interface DifficultyPreset {
+  id: DifficultyId;
+  name: string;
+  description: string;
+  maxLives: number;
+  paddleWidth: number;
+  ballSpeed: number; // units per second, on level 1
+  levelSpeedIncrease: number; // added to the ball speed each level, units per second
+}
@@ -0,0 +1,43 @@
+import { AccessibilitySettings } from '@/types/accessibility';
+import { AudioSettings } from '@/types/audio';
+import { DifficultyId } from '@/types/difficulty';
+import { Block, GamePhase, GameState, LevelSummary, Position } from '@/types/game';
+import { InputBindings } from '@/types/input';
+import { ThemePreference } from '@/types/theme';
+
+// What the page shows of the run in progress; frozen, and replaced rather than changed
+export interface GameSnapshot {
+  readonly phase: GamePhase;
+  readonly score: number;
+  readonly lives: number;
+  readonly level: number;
+  readonly difficulty: DifficultyId;
+  readonly remainingBlocks: number;
+  readonly ballCount: number;
+  readonly levelSummary: LevelSummary | null; // while the level-cleared summary shows
+}
+
+// Everything about the engine the page renders from, as of the last change
+export interface EngineSnapshot {
+  readonly game: GameSnapshot;
+  readonly canContinue: boolean; // an unfinished run from an earlier visit is waiting
+  readonly savedGameNotice: string | null;
+  readonly difficulty: DifficultyId; // picked for the next run
+  readonly gamepadName: string | null;
+  readonly bindings: InputBindings;
+  readonly audioSettings: AudioSettings;
+  readonly themePreference: ThemePreference;
+  readonly accessibility: AccessibilitySettings;
+}
+
+// Events `GameEngine` publishes, by name, with their payloads
+export interface GameEngineEvents {
+  scoreChanged: { score: number; previousScore: number };
+  lifeLost: { livesRemaining: number };
+  levelCompleted: { level: number; summary: LevelSummary }; // the level just cleared
+  blockDestroyed: { block: Block; cause: 'ball' | 'explosion'; points: number };
+  paddleHit: { position: Position };
+  // Sent whenever the snapshot is replaced
+  stateChanged: EngineSnapshot;
+  gameOver: { state: GameState };
+}
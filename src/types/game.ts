@@ -1,58 +1,181 @@
+import { DifficultyId } from '@/types/difficulty';
+
 export interface Position {
   x: number;
   y: number;
 }
 
+// Units per second
 export interface Velocity {
   x: number;
   y: number;
 }
 
 export interface Ball {
+  id: number; // stable while the ball is in play, e.g. to match it across states
   position: Position;
   velocity: Velocity;
   radius: number;
   color: string;
+  // Set while a sticky paddle holds the ball: its x offset from the paddle's center
+  stuckOffset?: number;
 }
 
 export interface Paddle {
   position: Position;
   width: number;
+  baseWidth: number; // width before power-ups
   height: number;
-  speed: number;
+  speed: number; // units per second
   color: string;
 }
 
+export type BlockType = 'standard' | 'tough' | 'indestructible' | 'explosive' | 'regenerating';
+
 export interface Block {
+  type: BlockType;
   position: Position;
   width: number;
   height: number;
   color: string;
   destroyed: boolean;
   points: number;
+  hitPoints: number; // hits left before the brick breaks
+  maxHitPoints: number;
+  timesDestroyed: number;
+}
+
+// A broken regenerating brick waiting to come back
+export interface PendingRegeneration {
+  index: number;
+  at: number; // simulation time, in seconds
 }
 
+export type PowerUpType =
+  | 'widePaddle'
+  | 'narrowPaddle'
+  | 'slowBall'
+  | 'fastBall'
+  | 'extraLife'
+  | 'multiBall'
+  | 'stickyPaddle'
+  | 'laserPaddle'
+  | 'piercingBall';
+
+// A falling power-up the paddle can catch
+export interface Capsule {
+  type: PowerUpType;
+  position: Position;
+  width: number;
+  height: number;
+}
+
+export interface ActivePowerUp {
+  type: PowerUpType;
+  remaining: number; // seconds
+  stacks: number;
+}
+
+export interface LaserShot {
+  position: Position;
+}
+
+/**
+ * Uniform grid of block indices used as a collision broadphase. Each cell
+ * lists the indices of every live block overlapping it, so a query only has
+ * to look at blocks near the ball instead of the whole field.
+ *
+ * Like the rest of `GameState` the grid is never mutated in place: updates
+ * return a new grid that shares every untouched cell with the old one.
+ */
+export interface SpatialGrid {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  cells: number[][];
+}
+
+// Running tally for the level in progress
+export interface LevelStats {
+  startTime: number; // simulation time the level began, in seconds
+  bricksToClear: number; // bricks that had to be broken to clear the level when it began
+  blocksBroken: number;
+  livesLost: number;
+  rally: number; // paddle returns since the last serve
+  longestRally: number;
+}
+
+// How a cleared level went, shown between levels
+export interface LevelSummary {
+  level: number;
+  blocksBroken: number;
+  time: number; // seconds from the level's start to its last brick
+  livesLost: number;
+  longestRally: number;
+  timeBonus: number; // points
+  noDeathBonus: number; // points
+}
+
+/**
+ * Where a run is in its flow; see @/lib/gamePhase for the moves allowed
+ * between them. 'serving' holds the ball on the paddle until the player
+ * launches it, and 'lifeLost' and 'levelCleared' are short breaks before the
+ * next serve; 'levelCleared' then waits for the player to go on.
+ */
+export type GamePhase = 'title' | 'serving' | 'playing' | 'paused' | 'lifeLost' | 'levelCleared' | 'gameOver';
+
 export interface GameState {
-  isRunning: boolean;
-  isPaused: boolean;
+  phase: GamePhase;
+  resumePhase: GamePhase | null; // phase to return to when unpaused
+  phaseTimeLeft: number; // seconds until a timed phase ends
   score: number;
   lives: number;
   level: number;
-  ball: Ball;
+  difficulty: DifficultyId; // preset the run was started on
+  ballSpeed: number; // units per second, for the current level
+  background: string;
+  balls: Ball[];
+  nextBallId: number;
   paddle: Paddle;
   blocks: Block[];
+  blockGrid: SpatialGrid;
+  remainingBlocks: number; // bricks still needed to clear the level
+  levelStats: LevelStats;
+  levelSummary: LevelSummary | null; // the level just cleared, while its summary shows
+  regenerations: PendingRegeneration[]; // ordered by `at`
+  capsules: Capsule[];
+  powerUps: ActivePowerUp[];
+  laserShots: LaserShot[];
+  laserCooldown: number; // seconds until the laser paddle fires again
+  time: number; // seconds of simulated play
+  seed: number; // the run's PRNG seed
+  rngState: number; // current PRNG state; see @/lib/random
 }
 
+/**
+ * What the player wants the paddle to do this tick, independent of the
+ * device: the engine maps keys, pointer and controller into these actions.
+ */
 export interface Controls {
-  leftPressed: boolean;
-  rightPressed: boolean;
-  touchX?: number;
+  moveLeft: boolean;
+  moveRight: boolean;
+  pointerX?: number; // paddle center from a mouse or touch; overrides the others
+  // Analog paddle movement in [-1, 1], e.g. from a gamepad stick; overrides left/right
+  moveAxis?: number;
+  launch?: boolean; // serve the ball, go on to the next level, or release a ball held by a sticky paddle
 }
 
 export interface GameConfig {
   canvasWidth: number;
   canvasHeight: number;
-  ballSpeed: number;
-  paddleSpeed: number;
+  difficulty: DifficultyId; // preset the values below started from
+  ballSpeed: number; // units per second, on level 1
+  levelSpeedIncrease: number; // added to the ball speed each level, units per second
+  ballRadius: number;
+  paddleSpeed: number; // units per second
+  paddleWidth: number;
   maxLives: number;
-}
\ No newline at end of file
+}
+
+// Everything in a config but the playfield size, which is fixed; see @/lib/playfield
+export type GameTuning = Omit<GameConfig, 'canvasWidth' | 'canvasHeight'>;
\ No newline at end of file
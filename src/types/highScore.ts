@@ -0,0 +1,12 @@
+// High scores are ranked separately for each difficulty, see @/lib/highScores
+export interface HighScoreEntry {
+  id: string;
+  name: string;
+  score: number;
+  level: number; // level reached
+  date: string; // ISO date the run ended
+  duration: number; // seconds of play, not counting pauses
+}
+
+// A finished run before it is given a name
+export type FinishedRun = Omit<HighScoreEntry, 'id' | 'name'>;
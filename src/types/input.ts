@@ -0,0 +1,8 @@
+// Actions a player can bind keys and controller buttons to
+export type InputAction = 'moveLeft' | 'moveRight' | 'launch' | 'pause' | 'mute';
+
+export type InputBinding =
+  | { device: 'keyboard'; code: string } // KeyboardEvent.code, e.g. 'ArrowLeft'
+  | { device: 'gamepad'; button: number }; // index in the standard gamepad mapping
+
+export type InputBindings = Record<InputAction, InputBinding[]>;
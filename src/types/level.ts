@@ -0,0 +1,77 @@
+import { BlockType } from '@/types/game';
+
+// Level coordinates are authored in this design space and scaled to the playfield
+export const LEVEL_DESIGN_WIDTH = 800;
+export const LEVEL_DESIGN_HEIGHT = 600;
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+// A single brick as written in a level file; omitted fields take defaults
+export interface LevelBrickSource {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  type?: BlockType;
+  color?: string;
+  points?: number;
+  hits?: number; // defaults to the type's usual hit count
+}
+
+export interface LevelGridLegendEntry {
+  type?: BlockType;
+  color?: string;
+  points?: number;
+  hits?: number; // defaults to the type's usual hit count
+}
+
+/**
+ * Compact ASCII layout: one string per row, one character per cell. `.` and
+ * spaces are empty cells; any other character is looked up in `legend`.
+ */
+export interface LevelGridSource {
+  rows: string[];
+  legend: Record<string, LevelGridLegendEntry>;
+  cellWidth?: number;
+  cellHeight?: number;
+  gap?: number;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+// On-disk level file. Exactly one of `bricks` or `grid` must be present.
+export interface LevelFile {
+  version: number;
+  name: string;
+  background?: string;
+  ballSpeed?: number; // units per second
+  bricks?: LevelBrickSource[];
+  grid?: LevelGridSource;
+}
+
+export interface LevelBrick {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: BlockType;
+  color: string;
+  points: number;
+  hits: number;
+}
+
+// A validated level with every brick resolved to absolute design coordinates
+export interface LevelDefinition {
+  version: number;
+  name: string;
+  background?: string;
+  ballSpeed?: number;
+  bricks: LevelBrick[];
+}
+
+export interface LevelIssue {
+  path: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
@@ -0,0 +1,50 @@
+import { GameConfig, GameState } from '@/types/game';
+import { LevelDefinition } from '@/types/level';
+
+export const RECORDING_FORMAT_VERSION = 3;
+
+// Bits of the packed buttons in an input entry
+export const INPUT_LEFT = 1;
+export const INPUT_RIGHT = 2;
+export const INPUT_LAUNCH = 4;
+
+// [first tick, packed buttons, pointerX or null, moveAxis if set]; holds until the next entry
+export type InputEntry = [tick: number, buttons: number, pointerX: number | null, moveAxis?: number];
+
+// Engine calls made just before `tick` was stepped
+export type RecordedCommand = [tick: number, command: 'start' | 'pause' | 'resume'];
+
+/**
+ * Everything needed to replay a run: the seed and setup it started from and
+ * the controls for every tick, run-length encoded so only changes are
+ * stored.
+ */
+export interface InputRecording {
+  version: number;
+  seed: number;
+  config: GameConfig;
+  level?: LevelDefinition; // custom first level, if the run had one
+  ticks: number;
+  inputs: InputEntry[];
+  commands: RecordedCommand[];
+}
+
+// The state of a run just before `tick` is stepped, with any commands for
+// that tick already applied
+export interface ReplaySnapshot {
+  tick: number;
+  config: GameConfig;
+  state: GameState;
+}
+
+export const REPLAY_FORMAT_VERSION = 3;
+
+// A finished (or in-progress) run: its inputs plus periodic snapshots for seeking
+export interface ReplayFile {
+  version: number;
+  recordedAt: string; // ISO date
+  score: number;
+  level: number; // level reached
+  recording: InputRecording;
+  snapshots: ReplaySnapshot[];
+}
@@ -0,0 +1,14 @@
+import { GameConfig, GameState } from '@/types/game';
+import { InputRecording } from '@/types/recording';
+
+export const SAVED_GAME_VERSION = 3;
+
+// An unfinished run kept across reloads
+export interface SavedGame {
+  version: number;
+  savedAt: string; // ISO date
+  config: GameConfig; // config the state was simulated with
+  state: GameState;
+  // The run's inputs so far, so the resumed run can still be replayed
+  recording: InputRecording;
+}
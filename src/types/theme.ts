@@ -0,0 +1,55 @@
+export type ThemeId = 'apple' | 'dark' | 'retro' | 'high-contrast';
+
+// The player's choice; 'system' follows the operating system's light or dark setting
+export type ThemePreference = ThemeId | 'system';
+
+export interface ColorStops {
+  start: string; // top of a vertical gradient
+  end: string; // bottom; the same as start for flat colors
+}
+
+/**
+ * How shapes are drawn. 'glossy' has rounded corners, gradients, drop
+ * shadows and highlights; 'flat' keeps the rounded corners with solid
+ * fills; 'pixel' uses square corners, a square ball and bevelled edges.
+ */
+export type ShapeStyle = 'glossy' | 'flat' | 'pixel';
+
+// Everything the renderer needs to know to draw the game in a given look
+export interface RenderTheme {
+  id: ThemeId;
+  name: string;
+  shapeStyle: ShapeStyle;
+  font: string; // canvas font family
+  // Playfield color; themes that don't suit a level's own background replace it
+  background: (levelBackground: string) => string;
+  // Colors for a brick given its color in the level
+  brickColors: (color: string) => ColorStops;
+  steel: ColorStops; // indestructible bricks
+  paddle: ColorStops;
+  ball: {
+    center: string;
+    middle: string;
+    edge: string;
+    rim: string;
+  };
+  // Line drawn around bricks, paddle and ball, if any
+  outline: string | null;
+  ui: {
+    card: string;
+    value: string;
+    label: string;
+    backdrop: string; // dims the playfield behind an overlay
+    overlayCard: string;
+    subtitle: string;
+    ready: string; // title accents of the ready, game over and paused overlays
+    gameOver: string;
+    paused: string;
+  };
+  effects: {
+    trail: string;
+    text: string;
+    spark: string;
+    flash: string;
+  };
+}
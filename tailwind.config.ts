@@ -6,7 +6,8 @@ const config: Config = {
     './src/components/**/*.{js,ts,jsx,tsx,mdx}',
     './src/app/**/*.{js,ts,jsx,tsx,mdx}',
   ],
-  darkMode: 'media',
+  // Follows the theme the player picked; see src/lib/themes.ts
+  darkMode: ['selector', '[data-theme="dark"]'],
   theme: {
     extend: {
       colors: {